@@ -1,4 +1,10 @@
-import { useState, useMemo, useEffect } from "react";
+import {
+  Fragment,
+  useState,
+  useMemo,
+  useEffect,
+  type ChangeEvent,
+} from "react";
 import {
   LineChart,
   Line,
@@ -8,6 +14,7 @@ import {
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceDot,
 } from "recharts";
 import {
   Download,
@@ -16,8 +23,112 @@ import {
   AlertTriangle,
   Lock,
   Activity,
+  Crosshair,
+  Loader2,
+  Layers,
+  Box,
+  Printer,
+  Waves,
+  Code,
+  Spline,
+  FileUp,
+  X,
+  FolderOpen,
+  Save,
+  Move,
+  Ruler,
+  ScanLine,
+  Maximize2,
+  type LucideIcon,
 } from "lucide-react";
-import { LeCleachHornCalculator } from "./lib/lecleach";
+import {
+  LeCleachHornCalculator,
+  type CrossSection,
+  type RollbackMode,
+  type TerminationMode,
+} from "./lib/lecleach";
+import { HORN_FAMILIES, type HornFamily } from "./lib/families";
+import {
+  chartDomains,
+  generateProfileCSV,
+  getSolverSteps,
+  type HornJob,
+} from "./lib/hornModel";
+import { csvOptionsTag, type CsvOptions } from "./lib/csvExport";
+import { generateProfileDXF } from "./lib/dxf";
+import { downloadBlob, fileTimestamp } from "./lib/download";
+import { buildHornMesh, type MeshSplit } from "./lib/mesh";
+import { generate3MF, generateSTL } from "./lib/meshExport";
+import {
+  buildTemplate,
+  generateTemplatePDF,
+  generateTemplateSVG,
+  type PaperSize,
+} from "./lib/template";
+import {
+  DRIVER_FLANGE_PRESETS,
+  validateFlange,
+  type ShellOptions,
+} from "./lib/shell";
+import {
+  generateCutListCSV,
+  generateLayerDXF,
+  generateLayerSVG,
+  sliceProfile,
+  type CutStyle,
+} from "./lib/slicer";
+import {
+  fitHornrespSegments,
+  generateHornrespFile,
+  type HornrespDriver,
+} from "./lib/hornresp";
+import { generateCadQuery, generateOpenSCAD } from "./lib/cadScript";
+import {
+  fitBezier,
+  generateBezierCSV,
+  generateBezierSVG,
+  sampleBezier,
+} from "./lib/curveFit";
+import {
+  compareProfiles,
+  parseProfileCSV,
+  type ImportAxis,
+  type ImportUnits,
+} from "./lib/profileImport";
+import {
+  DEFAULT_PROJECT,
+  parseProject,
+  serializeProject,
+  type Project,
+} from "./lib/project";
+import {
+  designMetrics,
+  designName,
+  jobDesign,
+  saveDesign,
+  type SavedDesign,
+} from "./lib/comparison";
+import { nearestByLength } from "./lib/analysis";
+import {
+  findDiameter,
+  panView,
+  snapToWall,
+  wallRadiiAtX,
+  zoomView,
+  type ChartView,
+} from "./lib/chartTools";
+import type { Vec2 } from "./lib/shell";
+import { wavefronts, type WavefrontSpacing } from "./lib/wavefront";
+import { checkDesign } from "./lib/designRules";
+import { useHornSolver } from "./hooks/useHornSolver";
+import { useConstraintSolver } from "./hooks/useConstraintSolver";
+import ImpedanceChart from "./components/ImpedanceChart";
+import CutListTable from "./components/CutListTable";
+import CsvExportDialog from "./components/CsvExportDialog";
+import DesignComparison from "./components/DesignComparison";
+import AnalysisCharts from "./components/AnalysisCharts";
+import ChartPointerLayer from "./components/ChartPointerLayer";
+import DesignCheck from "./components/DesignCheck";
 
 // Simple debounce hook
 function useDebounce<T>(value: T, delay: number): T {
@@ -33,352 +144,2337 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
+// Wall colour for an area-law residual: green below 0.1%, through yellow at
+// 1%, to red at 10% and beyond (log scale on |residual|).
+function residualColor(residual: number): string {
+  const magnitude = Math.abs(residual);
+  const t = Math.min(1, Math.max(0, (Math.log10(magnitude || 1e-12) + 3) / 2));
+  const hue = 120 * (1 - t);
+  return `hsl(${hue}, 80%, 45%)`;
+}
+
+// Driver inputs of the Hornresp export, in Hornresp's own units
+const HORNRESP_DRIVER_FIELDS: { key: keyof HornrespDriver; label: string }[] = [
+  { key: "sd", label: "Sd (cm²)" },
+  { key: "bl", label: "Bl (Tm)" },
+  { key: "cms", label: "Cms (m/N)" },
+  { key: "rms", label: "Rms (Ns/m)" },
+  { key: "mmd", label: "Mmd (g)" },
+  { key: "le", label: "Le (mH)" },
+  { key: "re", label: "Re (Ω)" },
+];
+
+// Pointer modes of the profile chart. Wheel zoom and drag pan work in all.
+type ChartTool = "pan" | "measure" | "probe";
+
+const CHART_TOOLS: { value: ChartTool; label: string; icon: LucideIcon }[] = [
+  { value: "pan", label: "Pan", icon: Move },
+  { value: "measure", label: "Measure", icon: Ruler },
+  { value: "probe", label: "Probe", icon: ScanLine },
+];
+
 function App() {
+  // Horn family (Le Cléac'h or one of the comparison profiles)
+  const [family, setFamily] = useState<HornFamily>(() => {
+    const p = new URLSearchParams(window.location.search).get("family");
+    return (
+      HORN_FAMILIES.find((f) => f.value === p)?.value ??
+      DEFAULT_PROJECT.design.family
+    );
+  });
+  const [coneAngle, setConeAngle] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("cone");
+    return p ? Number(p) : DEFAULT_PROJECT.design.coneAngle;
+  });
+  const [coverageAngle, setCoverageAngle] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("coverage");
+    return p ? Number(p) : DEFAULT_PROJECT.design.coverageAngle;
+  });
+
   // State for horn parameters
   const [fc, setFc] = useState(() => {
     const p = new URLSearchParams(window.location.search).get("fc");
-    return p ? Number(p) : 340;
+    return p ? Number(p) : DEFAULT_PROJECT.design.fc;
   });
   const [T, setT] = useState(() => {
     const p = new URLSearchParams(window.location.search).get("T");
-    return p ? Number(p) : 1.0;
+    return p ? Number(p) : DEFAULT_PROJECT.design.T;
   });
   const [d0, setD0] = useState(() => {
     const p = new URLSearchParams(window.location.search).get("d0");
-    return p ? Number(p) : 36.0; // Default 36mm throat
+    return p ? Number(p) : DEFAULT_PROJECT.design.d0;
   });
   const [roundOver, setRoundOver] = useState(() => {
     const p = new URLSearchParams(window.location.search).get("roundOver");
-    return p ? Number(p) : 180;
+    return p ? Number(p) : DEFAULT_PROJECT.design.roundOver;
+  });
+
+  // Rollback mode and its per-mode parameters
+  const [rollbackMode, setRollbackMode] = useState<RollbackMode>(() => {
+    const p = new URLSearchParams(window.location.search).get("rollback");
+    return p === "physical" || p === "clothoid" || p === "circular"
+      ? p
+      : DEFAULT_PROJECT.design.rollbackMode;
+  });
+  const [spiralGrowth, setSpiralGrowth] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("growth");
+    return p ? Number(p) : DEFAULT_PROJECT.design.spiralGrowth;
+  });
+  const [clothoidRate, setClothoidRate] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("clothoid");
+    return p ? Number(p) : DEFAULT_PROJECT.design.clothoidRate;
+  });
+  const [lipRadius, setLipRadius] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("lip");
+    return p ? Number(p) : DEFAULT_PROJECT.design.lipRadius;
+  });
+
+  // Where the wall stops, and the limit for each stop mode
+  const [termination, setTermination] = useState<TerminationMode>(() => {
+    const p = new URLSearchParams(window.location.search).get("stop");
+    return p === "diameter" || p === "depth" || p === "length"
+      ? p
+      : DEFAULT_PROJECT.design.termination;
+  });
+  const [stopDiameter, setStopDiameter] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("sdia");
+    return p ? Number(p) : DEFAULT_PROJECT.design.stopDiameter;
+  });
+  const [stopDepth, setStopDepth] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("sdepth");
+    return p ? Number(p) : DEFAULT_PROJECT.design.stopDepth;
+  });
+  const [stopLength, setStopLength] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("slen");
+    return p ? Number(p) : DEFAULT_PROJECT.design.stopLength;
+  });
+
+  // Adaptive step chord tolerance in mm (0 = fixed 0.5 mm steps)
+  const [tolerance, setTolerance] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("tol");
+    return p ? Number(p) : DEFAULT_PROJECT.solver.tolerance;
   });
 
+  // Cross section (round, elliptical or rectangular)
+  const [crossSection, setCrossSection] = useState<CrossSection>(() => {
+    const p = new URLSearchParams(window.location.search).get("section");
+    return p === "elliptical" || p === "rectangular"
+      ? p
+      : DEFAULT_PROJECT.design.crossSection;
+  });
+  const [throatWidth, setThroatWidth] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("tw");
+    return p ? Number(p) : DEFAULT_PROJECT.design.throatWidth;
+  });
+  const [throatHeight, setThroatHeight] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("th");
+    return p ? Number(p) : DEFAULT_PROJECT.design.throatHeight;
+  });
+  const [mouthAspect, setMouthAspect] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("aspect");
+    return p ? Number(p) : DEFAULT_PROJECT.design.mouthAspect;
+  });
+
+  // Wall thickness (0 = inner surface only) and throat mounting flange
+  const [wallThickness, setWallThickness] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("wall");
+    return p ? Number(p) : DEFAULT_PROJECT.shell.wallThickness;
+  });
+  const [flangeEnabled, setFlangeEnabled] = useState(
+    () => new URLSearchParams(window.location.search).get("flange") === "1"
+  );
+  const [flangeDiameter, setFlangeDiameter] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("fod");
+    return p ? Number(p) : DEFAULT_PROJECT.shell.flange.outerDiameter;
+  });
+  const [flangeThickness, setFlangeThickness] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("ft");
+    return p ? Number(p) : DEFAULT_PROJECT.shell.flange.thickness;
+  });
+  const [boltCircleDiameter, setBoltCircleDiameter] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("bcd");
+    return p ? Number(p) : DEFAULT_PROJECT.shell.flange.boltCircleDiameter;
+  });
+  const [holeCount, setHoleCount] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("holes");
+    return p ? Number(p) : DEFAULT_PROJECT.shell.flange.holeCount;
+  });
+  const [holeDiameter, setHoleDiameter] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("hole");
+    return p ? Number(p) : DEFAULT_PROJECT.shell.flange.holeDiameter;
+  });
+
+  // Mouth diameter constraint
+  const [maxMouthDiameter, setMaxMouthDiameter] = useState(() => {
+    const p = new URLSearchParams(window.location.search).get("mouth");
+    return p ? Number(p) : DEFAULT_PROJECT.constraints.maxMouthDiameter;
+  });
+  const [isDiameterLocked, setIsDiameterLocked] = useState(
+    () => new URLSearchParams(window.location.search).get("lock") === "1"
+  );
+
   // Sync state to URL params
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
+    params.set("family", family);
+    params.set("cone", coneAngle.toString());
+    params.set("coverage", coverageAngle.toString());
     params.set("fc", fc.toString());
     params.set("T", T.toString());
     params.set("d0", d0.toString());
     params.set("roundOver", roundOver.toString());
+    params.set("rollback", rollbackMode);
+    params.set("growth", spiralGrowth.toString());
+    params.set("clothoid", clothoidRate.toString());
+    params.set("lip", lipRadius.toString());
+    params.set("stop", termination);
+    params.set("sdia", stopDiameter.toString());
+    params.set("sdepth", stopDepth.toString());
+    params.set("slen", stopLength.toString());
+    params.set("tol", tolerance.toString());
+    params.set("section", crossSection);
+    params.set("tw", throatWidth.toString());
+    params.set("th", throatHeight.toString());
+    params.set("aspect", mouthAspect.toString());
+    params.set("wall", wallThickness.toString());
+    params.set("flange", flangeEnabled ? "1" : "0");
+    params.set("fod", flangeDiameter.toString());
+    params.set("ft", flangeThickness.toString());
+    params.set("bcd", boltCircleDiameter.toString());
+    params.set("holes", holeCount.toString());
+    params.set("hole", holeDiameter.toString());
+    params.set("mouth", maxMouthDiameter.toString());
+    params.set("lock", isDiameterLocked ? "1" : "0");
     const newUrl = `${window.location.pathname}?${params.toString()}`;
     window.history.replaceState({}, "", newUrl);
-  }, [fc, T, d0, roundOver]);
+  }, [
+    family,
+    coneAngle,
+    coverageAngle,
+    fc,
+    T,
+    d0,
+    roundOver,
+    rollbackMode,
+    spiralGrowth,
+    clothoidRate,
+    lipRadius,
+    termination,
+    stopDiameter,
+    stopDepth,
+    stopLength,
+    tolerance,
+    crossSection,
+    throatWidth,
+    throatHeight,
+    mouthAspect,
+    wallThickness,
+    flangeEnabled,
+    flangeDiameter,
+    flangeThickness,
+    boltCircleDiameter,
+    holeCount,
+    holeDiameter,
+    maxMouthDiameter,
+    isDiameterLocked,
+  ]);
+
+  // 3D print mesh export options
+  const [meshSegments, setMeshSegments] = useState(
+    DEFAULT_PROJECT.exports.mesh.segments
+  );
+  const [meshSplit, setMeshSplit] = useState<MeshSplit>(
+    DEFAULT_PROJECT.exports.mesh.split
+  );
+  const [axialParts, setAxialParts] = useState(
+    DEFAULT_PROJECT.exports.mesh.axialParts
+  );
+  const [meshKeys, setMeshKeys] = useState(DEFAULT_PROJECT.exports.mesh.keys);
 
-  // New: Mouth Diameter Constraint
-  const [maxMouthDiameter, setMaxMouthDiameter] = useState(620);
-  const [isDiameterLocked, setIsDiameterLocked] = useState(false);
+  // 1:1 print template options
+  const [paperSize, setPaperSize] = useState<PaperSize>(
+    DEFAULT_PROJECT.exports.template.paper
+  );
+  const [landscape, setLandscape] = useState(
+    DEFAULT_PROJECT.exports.template.landscape
+  );
+  const [pageOverlap, setPageOverlap] = useState(
+    DEFAULT_PROJECT.exports.template.overlap
+  );
+  const [stationSpacing, setStationSpacing] = useState(
+    DEFAULT_PROJECT.exports.template.stationSpacing
+  );
+  const [mirrorTemplate, setMirrorTemplate] = useState(
+    DEFAULT_PROJECT.exports.template.mirror
+  );
+
+  // Stacked-layer (sliced) construction from sheet material
+  const [sheetThickness, setSheetThickness] = useState(
+    DEFAULT_PROJECT.exports.slicer.sheetThickness
+  );
+  const [ringWidth, setRingWidth] = useState(
+    DEFAULT_PROJECT.exports.slicer.ringWidth
+  );
+  const [cutStyle, setCutStyle] = useState<CutStyle>(
+    DEFAULT_PROJECT.exports.slicer.cutStyle
+  );
+
+  // Point CSV conventions for different CAD packages
+  const [csvOptions, setCsvOptions] = useState<CsvOptions>(
+    DEFAULT_PROJECT.exports.csv
+  );
+  const [isCsvDialogOpen, setIsCsvDialogOpen] = useState(false);
+
+  // Smooth curve export: max deviation of the fitted Bézier spans (mm)
+  const [fitTolerance, setFitTolerance] = useState(
+    DEFAULT_PROJECT.exports.bezierTolerance
+  );
+  const [showFit, setShowFit] = useState(false);
+
+  // Profile CSV loaded for overlay and comparison, parsed with these settings
+  const [importFile, setImportFile] = useState<{
+    name: string;
+    text: string;
+  } | null>(null);
+  const [importUnits, setImportUnits] = useState<ImportUnits>("auto");
+  const [importAxis, setImportAxis] = useState<ImportAxis>("auto");
+
+  // Placeholder driver written into the Hornresp record
+  const [hornrespDriver, setHornrespDriver] = useState<HornrespDriver>(
+    DEFAULT_PROJECT.exports.hornrespDriver
+  );
+
+  // Colour the wall by area-law residual instead of a flat colour
+  const [showResidual, setShowResidual] = useState(false);
+
+  // Spherical-cap wavefronts drawn every N mm of path length or N points
+  const [showWavefronts, setShowWavefronts] = useState(false);
+  const [wavefrontSpacing, setWavefrontSpacing] =
+    useState<WavefrontSpacing>("length");
+  const [wavefrontInterval, setWavefrontInterval] = useState(20);
+
+  // Inverse solver: lowest fc (and optionally best T) that fits the limits.
+  // A max depth of 0 leaves the depth unconstrained.
+  const [maxDepth, setMaxDepth] = useState(
+    DEFAULT_PROJECT.constraints.maxDepth
+  );
+  const [optimizeT, setOptimizeT] = useState(
+    DEFAULT_PROJECT.constraints.optimizeT
+  );
+  const {
+    fitResult,
+    isSolving,
+    error: fitError,
+    solve: solveConstraints,
+    clear: clearFit,
+  } = useConstraintSolver();
+
+  // Project file name and notes, and the outcome of the last load
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT.name);
+  const [projectNotes, setProjectNotes] = useState(DEFAULT_PROJECT.notes);
+  const [projectErrors, setProjectErrors] = useState<string[]>([]);
+  const [projectStatus, setProjectStatus] = useState("");
+
+  // Path length under the cursor in the profile or analysis charts
+  const [hoverLength, setHoverLength] = useState<number | null>(null);
+
+  // Profile chart tools. A null view follows the design.
+  const [chartTool, setChartTool] = useState<ChartTool>("pan");
+  const [zoomedView, setZoomedView] = useState<ChartView | null>(null);
+  const [measurePoints, setMeasurePoints] = useState<Vec2[]>([]);
+  const [probeX, setProbeX] = useState<number | null>(null);
+  const [cutoutDiameter, setCutoutDiameter] = useState(0);
+
+  // Solved designs kept for side-by-side comparison
+  const [savedDesigns, setSavedDesigns] = useState<SavedDesign[]>([]);
 
   // Debounce the heavy parameters
+  const debouncedFamily = useDebounce(family, 300);
+  const debouncedConeAngle = useDebounce(coneAngle, 300);
+  const debouncedCoverageAngle = useDebounce(coverageAngle, 300);
   const debouncedFc = useDebounce(fc, 300);
   const debouncedT = useDebounce(T, 300);
   const debouncedD0 = useDebounce(d0, 300);
   const debouncedRoundOver = useDebounce(roundOver, 300);
+  const debouncedRollbackMode = useDebounce(rollbackMode, 300);
+  const debouncedSpiralGrowth = useDebounce(spiralGrowth, 300);
+  const debouncedClothoidRate = useDebounce(clothoidRate, 300);
+  const debouncedLipRadius = useDebounce(lipRadius, 300);
+  const debouncedTermination = useDebounce(termination, 300);
+  const debouncedStopDiameter = useDebounce(stopDiameter, 300);
+  const debouncedStopDepth = useDebounce(stopDepth, 300);
+  const debouncedStopLength = useDebounce(stopLength, 300);
+  const debouncedTolerance = useDebounce(tolerance, 300);
+  const debouncedCrossSection = useDebounce(crossSection, 300);
+  const debouncedThroatWidth = useDebounce(throatWidth, 300);
+  const debouncedThroatHeight = useDebounce(throatHeight, 300);
+  const debouncedMouthAspect = useDebounce(mouthAspect, 300);
+
+  const shellOptions = useMemo<ShellOptions>(
+    () => ({
+      wallThickness,
+      flange: flangeEnabled
+        ? {
+            outerDiameter: flangeDiameter,
+            thickness: flangeThickness,
+            boltCircleDiameter,
+            holeCount,
+            holeDiameter,
+          }
+        : null,
+    }),
+    [
+      wallThickness,
+      flangeEnabled,
+      flangeDiameter,
+      flangeThickness,
+      boltCircleDiameter,
+      holeCount,
+      holeDiameter,
+    ]
+  );
+  const debouncedShellOptions = useDebounce(shellOptions, 300);
 
-  // Derived state: Calculator and Profile Points
-  const { points, dimensions, csv, chartData, xDomain, yDomain } =
-    useMemo(() => {
-      const calculator = new LeCleachHornCalculator({
+  // Derived state: the job for the current (debounced) parameters, solved in
+  // a Web Worker. Stale jobs are cancelled when the parameters change.
+  const job = useMemo<HornJob>(
+    () => ({
+      family: debouncedFamily,
+      params: {
         fc: debouncedFc,
         T: debouncedT,
         d0: debouncedD0,
         roundOver: debouncedRoundOver,
-      });
-
-      // 1. Heavy Calculation
-      // Use finer step size (0.5mm) for better solver stability near 180 deg
-      const calculatedPoints = calculator.generateProfile(0.5);
-      const csvData = calculator.generateCSV(calculatedPoints);
-
-      // Calculate key dimensions based on bounding box
-      let minX = 0,
-        maxX = 0,
-        maxY = 0;
-
-      if (calculatedPoints.length > 0) {
-        minX = calculatedPoints[0].x;
-        maxX = calculatedPoints[0].x;
-        maxY = calculatedPoints[0].y;
-
-        for (const p of calculatedPoints) {
-          if (p.x < minX) minX = p.x;
-          if (p.x > maxX) maxX = p.x;
-          if (p.y > maxY) maxY = p.y;
-        }
-      }
-
-      const lastPoint = calculatedPoints[calculatedPoints.length - 1];
-      const mouthDiameter = lastPoint ? lastPoint.y * 2 : 0;
-      const physicalDepth = maxX;
-
-      // 2. Prepare Visualization Data (Adaptive Downsampling)
-      // We clip the tail (last N points) to preserve the rollback detail,
-      // while downsampling the long initial body to save performance.
-      const totalPoints = calculatedPoints.length;
-      const PRESERVED_TAIL_POINTS = 200; // Keep last 200 points (approx 200mm) full res for rollback detail
-      const targetBodyPoints = 300; // Target points for the main body
-
-      let chartData: typeof calculatedPoints = [];
-
-      if (totalPoints <= PRESERVED_TAIL_POINTS + targetBodyPoints) {
-        // Small enough, keep all
-        chartData = calculatedPoints;
-      } else {
-        const bodyPoints = calculatedPoints.slice(
-          0,
-          totalPoints - PRESERVED_TAIL_POINTS
-        );
-        const tailPoints = calculatedPoints.slice(
-          totalPoints - PRESERVED_TAIL_POINTS
-        );
-
-        const bodyStep = Math.ceil(bodyPoints.length / targetBodyPoints) || 1;
-        const downsampledBody = bodyPoints.filter(
-          (_, index) => index % bodyStep === 0
-        );
-
-        chartData = [...downsampledBody, ...tailPoints];
-      }
-
-      // Add mirror data for visualization
-      chartData = chartData.map((p) => ({
-        ...p,
-        negY: -p.y,
-      }));
-
-      // 3. Calculate Aspect Ratio Enforced Domains
-      const CHART_ASPECT = 2.0;
-
-      // Determine data bounding box dimensions
-      const dataWidth = maxX - minX;
-      const dataHeight = maxY * 2; // Full height (top to bottom)
+        rollbackMode: debouncedRollbackMode,
+        spiralGrowth: debouncedSpiralGrowth,
+        clothoidRate: debouncedClothoidRate,
+        lipRadius: debouncedLipRadius,
+        termination: debouncedTermination,
+        stopDiameter: debouncedStopDiameter,
+        stopDepth: debouncedStopDepth,
+        stopLength: debouncedStopLength,
+        crossSection: debouncedCrossSection,
+        throatWidth: debouncedThroatWidth,
+        throatHeight: debouncedThroatHeight,
+        mouthAspect: debouncedMouthAspect,
+      },
+      familyOptions: {
+        coneAngle: debouncedConeAngle,
+        coverageAngle: debouncedCoverageAngle,
+      },
+      tolerance: debouncedTolerance,
+      shell: debouncedShellOptions,
+    }),
+    [
+      debouncedFamily,
+      debouncedConeAngle,
+      debouncedCoverageAngle,
+      debouncedFc,
+      debouncedT,
+      debouncedD0,
+      debouncedRoundOver,
+      debouncedRollbackMode,
+      debouncedSpiralGrowth,
+      debouncedClothoidRate,
+      debouncedLipRadius,
+      debouncedTermination,
+      debouncedStopDiameter,
+      debouncedStopDepth,
+      debouncedStopLength,
+      debouncedTolerance,
+      debouncedCrossSection,
+      debouncedThroatWidth,
+      debouncedThroatHeight,
+      debouncedMouthAspect,
+      debouncedShellOptions,
+    ]
+  );
 
-      // Center the view on the data
-      const centerX = (minX + maxX) / 2;
+  const { result, resultJob, isComputing, stage, progress, error } =
+    useHornSolver(job);
+  const {
+    points,
+    verticalPoints,
+    acousticPoints,
+    dimensions,
+    shell,
+    chartData,
+    verticalChartData,
+    spiralData,
+    xDomain,
+    yDomain,
+  } = result;
 
-      let renderWidth = dataWidth;
-      let renderHeight = dataHeight;
+  const isAxisymmetric = verticalPoints.length === 0;
+  const finalAngle = points[points.length - 1]?.angle ?? 0;
 
-      const dataAspect = dataWidth / dataHeight;
+  // The flange bore follows the widest throat side (see computeHorn)
+  const flangeWarning = shellOptions.flange
+    ? validateFlange(
+        Math.max(points[0]?.y ?? d0 / 2, verticalPoints[0]?.y ?? 0),
+        wallThickness,
+        shellOptions.flange
+      )
+    : null;
 
-      if (dataAspect > CHART_ASPECT) {
-        renderHeight = renderWidth / CHART_ASPECT;
-      } else {
-        renderWidth = renderHeight * CHART_ASPECT;
+  const boltCircle = shell?.flange
+    ? {
+        x: -shell.flange.options.thickness,
+        radius: shell.flange.options.boltCircleDiameter / 2,
       }
+    : null;
 
-      // Add 10% padding for aesthetics
-      renderWidth *= 1.1;
-      renderHeight *= 1.1;
-
-      const xDomain = [centerX - renderWidth / 2, centerX + renderWidth / 2];
-      const yDomain = [-renderHeight / 2, renderHeight / 2];
-
-      // 4. Downsample for Radial Chart (needs more resolution than linear, but less than full)
-      const spiralStep = Math.ceil(totalPoints / 1000) || 1;
-      const spiralData = calculatedPoints.filter(
-        (_, index) => index % spiralStep === 0 || index === totalPoints - 1
-      );
+  const handleFlangePreset = (index: number) => {
+    const preset = DRIVER_FLANGE_PRESETS[index];
+    if (!preset) return;
+    setFlangeDiameter(preset.options.outerDiameter);
+    setBoltCircleDiameter(preset.options.boltCircleDiameter);
+    setHoleCount(preset.options.holeCount);
+    setHoleDiameter(preset.options.holeDiameter);
+  };
 
-      return {
-        points: calculatedPoints, // Full resolution for stats/export
-        chartData, // Downsampled for UI
-        spiralData,
-        csv: csvData,
-        dimensions: {
-          mouthDiameter,
-          depth: physicalDepth,
-          minX,
-        },
-        xDomain,
-        yDomain,
-      };
-    }, [debouncedFc, debouncedT, debouncedD0, debouncedRoundOver]);
+  // Design rules, rerun on every solve against the job that produced it
+  const designIssues = useMemo(
+    () => checkDesign(resultJob, result),
+    [resultJob, result]
+  );
 
   // Handle Diameter Limit Warning / Correction
   const diameterExceeded =
     isDiameterLocked && dimensions.mouthDiameter > maxMouthDiameter;
 
+  // The search runs in a worker, so the page stays live while it runs
+  const handleSolve = () =>
+    solveConstraints(
+      {
+        fc,
+        T,
+        d0,
+        roundOver,
+        rollbackMode,
+        spiralGrowth,
+        clothoidRate,
+        lipRadius,
+        termination,
+        stopDiameter,
+        stopDepth,
+        stopLength,
+        crossSection,
+        throatWidth,
+        throatHeight,
+        mouthAspect,
+      },
+      {
+        maxMouthDiameter: isDiameterLocked ? maxMouthDiameter : undefined,
+        maxDepth: maxDepth > 0 ? maxDepth : undefined,
+      },
+      { optimizeT, ...getSolverSteps(tolerance) }
+    );
+
+  const handleApplyFit = () => {
+    if (!fitResult) return;
+    setFc(fitResult.fc);
+    setT(fitResult.T);
+    clearFit();
+  };
+
   const handleDownload = () => {
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/[:.]/g, "-")
-      .slice(0, 19);
-    a.href = url;
-    a.download = `lecleach-fc${fc}-T${T}-d${d0}-r${roundOver}-depth${dimensions.depth.toFixed(
-      1
-    )}-mouth${dimensions.mouthDiameter.toFixed(1)}-${timestamp}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+    // Rows, header and file name all describe the solved design, which lags
+    // the inputs while a job runs and stays behind if one fails
+    const csv = generateProfileCSV(
+      resultJob,
+      points,
+      verticalPoints,
+      csvOptions
+    );
+    const solved = resultJob.params;
+    const rollbackTag =
+      resultJob.family === "lecleach"
+        ? `-${solved.rollbackMode ?? "spiral"}`
+        : "";
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([csv], { type: "text/csv" }),
+      `${resultJob.family}-fc${solved.fc}-T${solved.T}-d${solved.d0}-r${
+        solved.roundOver
+      }${rollbackTag}-depth${dimensions.depth.toFixed(
+        1
+      )}-mouth${dimensions.mouthDiameter.toFixed(1)}-${csvOptionsTag(
+        csvOptions
+      )}-${timestamp}.csv`
+    );
+    setIsCsvDialogOpen(false);
+  };
+
+  const handleDownloadDXF = () => {
+    const dxf = generateProfileDXF({
+      inner: points,
+      vertical: verticalPoints,
+      outer: shell?.outerWall ?? [],
+      verticalOuter: shell?.verticalOuterWall ?? [],
+      flange: shell?.flange ?? null,
+    });
+    const solved = resultJob.params;
+    const rollbackTag =
+      resultJob.family === "lecleach"
+        ? `-${solved.rollbackMode ?? "spiral"}`
+        : "";
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([dxf], { type: "application/dxf" }),
+      `${resultJob.family}-fc${solved.fc}-T${solved.T}-d${solved.d0}-r${
+        solved.roundOver
+      }${rollbackTag}-depth${dimensions.depth.toFixed(
+        1
+      )}-mouth${dimensions.mouthDiameter.toFixed(1)}-${timestamp}.dxf`
+    );
   };
 
   const handleDownloadLog = () => {
     // Generate the log CSV on demand since it's cheap and we have the full points array
+    const solved = resultJob.params;
     const calculator = new LeCleachHornCalculator({
+      fc: solved.fc,
+      T: solved.T,
+      d0: solved.d0,
+      roundOver: solved.roundOver,
+    });
+    const logCsv = calculator.generateLog(points);
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([logCsv], { type: "text/csv" }),
+      `${resultJob.family}-log-fc${solved.fc}-T${solved.T}-d${solved.d0}-r${
+        solved.roundOver
+      }-depth${dimensions.depth.toFixed(
+        1
+      )}-mouth${dimensions.mouthDiameter.toFixed(1)}-${timestamp}.csv`
+    );
+  };
+
+  const handleDownloadShell = () => {
+    if (!shell) return;
+    const flangeTag = shell.flange
+      ? `-flange${shell.flange.options.outerDiameter}`
+      : "";
+    const solved = resultJob.params;
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([shell.csv], { type: "text/csv" }),
+      `${resultJob.family}-shell-fc${solved.fc}-T${solved.T}-d${solved.d0}-r${solved.roundOver}-wall${resultJob.shell.wallThickness}${flangeTag}-${timestamp}.csv`
+    );
+  };
+
+  // Page layout of the 1:1 template, also used for the page count
+  const template = useMemo(
+    () =>
+      buildTemplate(
+        {
+          inner: points,
+          vertical: verticalPoints,
+          outer: shell?.outerWall ?? [],
+          verticalOuter: shell?.verticalOuterWall ?? [],
+          flange: shell?.flange ?? null,
+        },
+        {
+          paper: paperSize,
+          landscape,
+          overlap: pageOverlap,
+          stationSpacing,
+          mirror: mirrorTemplate,
+        }
+      ),
+    [
+      points,
+      verticalPoints,
+      shell,
+      paperSize,
+      landscape,
+      pageOverlap,
+      stationSpacing,
+      mirrorTemplate,
+    ]
+  );
+
+  const handleDownloadTemplate = (format: "pdf" | "svg") => {
+    const solved = resultJob.params;
+    const title = `${resultJob.family} fc${solved.fc} T${solved.T} d${solved.d0} r${solved.roundOver}`;
+    const data =
+      format === "pdf"
+        ? generateTemplatePDF(template, title)
+        : generateTemplateSVG(template, title);
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([data], {
+        type: format === "pdf" ? "application/pdf" : "application/zip",
+      }),
+      `${resultJob.family}-template-fc${solved.fc}-T${solved.T}-d${
+        solved.d0
+      }-r${solved.roundOver}-${paperSize}-${timestamp}.${
+        format === "pdf" ? "pdf" : "zip"
+      }`
+    );
+  };
+
+  // Rings only describe round horns
+  const slices = useMemo(
+    () =>
+      isAxisymmetric
+        ? sliceProfile(points, { sheetThickness, ringWidth, cutStyle })
+        : null,
+    [isAxisymmetric, points, sheetThickness, ringWidth, cutStyle]
+  );
+
+  const handleDownloadSlices = (format: "csv" | "dxf" | "svg") => {
+    if (!slices) return;
+    const data =
+      format === "csv"
+        ? generateCutListCSV(slices)
+        : format === "dxf"
+        ? generateLayerDXF(slices)
+        : generateLayerSVG(slices);
+    const solved = resultJob.params;
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([data], {
+        type: format === "csv" ? "text/csv" : "application/zip",
+      }),
+      `${resultJob.family}-layers-${format}-fc${solved.fc}-T${solved.T}-d${
+        solved.d0
+      }-r${solved.roundOver}-t${sheetThickness}-${cutStyle}-${timestamp}.${
+        format === "csv" ? "csv" : "zip"
+      }`
+    );
+  };
+
+  // Four-segment approximation of the area law for Hornresp
+  const hornrespFit = useMemo(() => fitHornrespSegments(points), [points]);
+
+  const handleDownloadHornresp = () => {
+    const solved = resultJob.params;
+    const comment = `${resultJob.family} fc${solved.fc} T${solved.T} d${solved.d0} r${solved.roundOver}`;
+    const record = generateHornrespFile(hornrespFit, hornrespDriver, comment);
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([record], { type: "text/plain" }),
+      `${resultJob.family}-hornresp-fc${solved.fc}-T${solved.T}-d${solved.d0}-r${solved.roundOver}-${timestamp}.txt`
+    );
+  };
+
+  // Revolved meshes need a wall with volume, and only describe round horns
+  const canExportMesh = isAxisymmetric && !!shell && shell.outerWall.length > 0;
+
+  const handleDownloadMesh = (format: "stl" | "3mf") => {
+    if (!shell) return;
+    const parts = buildHornMesh(points, shell.outerWall, shell.flange, {
+      segments: meshSegments,
+      split: meshSplit,
+      axialParts,
+      keys: meshKeys,
+    });
+    const solved = resultJob.params;
+    const wall = resultJob.shell.wallThickness;
+    const title = `${resultJob.family} fc${solved.fc} T${solved.T} d${solved.d0} r${solved.roundOver} wall${wall}`;
+    const data =
+      format === "stl" ? generateSTL(parts, title) : generate3MF(parts, title);
+    const type =
+      format === "stl"
+        ? "model/stl"
+        : "application/vnd.ms-package.3dmanufacturing-3dmodel+xml";
+    const splitTag = meshSplit === "none" ? "" : `-${meshSplit}`;
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([data], { type }),
+      `${resultJob.family}-fc${solved.fc}-T${solved.T}-d${solved.d0}-r${solved.roundOver}-wall${wall}${splitTag}-${timestamp}.${format}`
+    );
+  };
+
+  // Compact piecewise cubic Bézier fit of the wall, and its chart overlay
+  const bezierFit = useMemo(
+    () => fitBezier(points, fitTolerance),
+    [points, fitTolerance]
+  );
+  const bezierChartData = useMemo(
+    () => (showFit ? sampleBezier(bezierFit) : []),
+    [showFit, bezierFit]
+  );
+  const bezierAnchors = useMemo(
+    () =>
+      showFit
+        ? [
+            ...bezierFit.segments.slice(0, 1).map((s) => s.p0),
+            ...bezierFit.segments.map((s) => s.p3),
+          ]
+        : [],
+    [showFit, bezierFit]
+  );
+
+  // Imported profile against the current horizontal wall. Auto units pick
+  // the scale that matches the current throat.
+  const importResult = useMemo(
+    () =>
+      importFile
+        ? parseProfileCSV(
+            importFile.text,
+            importFile.name,
+            importUnits,
+            importAxis,
+            points[0]?.y ?? 0
+          )
+        : null,
+    [importFile, importUnits, importAxis, points]
+  );
+  const imported = importResult?.ok ? importResult.profile : null;
+  const deviation = useMemo(
+    () => (imported ? compareProfiles(imported.points, points) : null),
+    [imported, points]
+  );
+  const importedChartData = useMemo(
+    () => imported?.points.map((p) => ({ ...p, negY: -p.y })) ?? [],
+    [imported]
+  );
+
+  const handleImportFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so loading the same file again still fires
+    e.target.value = "";
+    if (!file) return;
+    file.text().then((text) => setImportFile({ name: file.name, text }));
+  };
+
+  const handleDownloadBezier = (format: "csv" | "svg") => {
+    const data =
+      format === "csv"
+        ? generateBezierCSV(bezierFit)
+        : generateBezierSVG(bezierFit);
+    const solved = resultJob.params;
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([data], {
+        type: format === "csv" ? "text/csv" : "image/svg+xml",
+      }),
+      `${resultJob.family}-bezier-fc${solved.fc}-T${solved.T}-d${solved.d0}-r${solved.roundOver}-tol${fitTolerance}-${timestamp}.${format}`
+    );
+  };
+
+  // Parametric scripts use the inputs the current profile was solved with
+  const handleDownloadScript = (format: "scad" | "py") => {
+    const solved = resultJob.params;
+    const input = {
+      family: resultJob.family,
+      params: solved,
+      familyOptions: resultJob.familyOptions,
+      profile: points,
+      wallThickness: resultJob.shell.wallThickness,
+      flange: shell?.flange?.options ?? null,
+      segments: meshSegments,
+    };
+    const script =
+      format === "scad" ? generateOpenSCAD(input) : generateCadQuery(input);
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([script], { type: "text/plain" }),
+      `${resultJob.family}-fc${solved.fc}-T${solved.T}-d${solved.d0}-r${solved.roundOver}-wall${resultJob.shell.wallThickness}-${timestamp}.${format}`
+    );
+  };
+
+  const hoverPoint =
+    hoverLength === null ? undefined : nearestByLength(chartData, hoverLength);
+
+  // All arcs go in one line, broken between arcs by a point without y
+  const wavefrontArcs = useMemo(
+    () =>
+      showWavefronts
+        ? wavefronts(points, wavefrontSpacing, wavefrontInterval)
+        : [],
+    [showWavefronts, points, wavefrontSpacing, wavefrontInterval]
+  );
+  const wavefrontChartData = useMemo(
+    () =>
+      wavefrontArcs.flatMap((w) => [
+        ...w.arc,
+        { x: w.arc[w.arc.length - 1].x, y: null },
+      ]),
+    [wavefrontArcs]
+  );
+  const hoverArc =
+    hoverLength === null
+      ? undefined
+      : nearestByLength(wavefrontArcs, hoverLength);
+
+  // Kept designs, measured against the job that produced the result. Keeping
+  // is still held back mid-solve so the table never lags the inputs.
+  const currentMetrics = useMemo(
+    () => designMetrics(resultJob, result),
+    [resultJob, result]
+  );
+  const visibleDesigns = useMemo(
+    () => savedDesigns.filter((d) => d.visible),
+    [savedDesigns]
+  );
+
+  // Widen the true-scale view to fit the kept designs on the chart
+  const chartView = useMemo(() => {
+    if (visibleDesigns.length === 0) return { xDomain, yDomain };
+    let { minX, maxX, maxY } = dimensions;
+    for (const design of visibleDesigns) {
+      for (const p of design.chartData) {
+        minX = Math.min(minX, p.x);
+        maxX = Math.max(maxX, p.x);
+        maxY = Math.max(maxY, p.y);
+      }
+    }
+    return chartDomains(minX, maxX, maxY);
+  }, [visibleDesigns, dimensions, xDomain, yDomain]);
+
+  // Chart tools. Zoom and pan start from whatever is on screen.
+  const view = zoomedView ?? chartView;
+  const wallPoints = useMemo(
+    () => [...points, ...verticalPoints],
+    [points, verticalPoints]
+  );
+  const probeWidth = probeX === null ? [] : wallRadiiAtX(points, probeX);
+  const probeHeight =
+    probeX === null || isAxisymmetric
+      ? []
+      : wallRadiiAtX(verticalPoints, probeX);
+  const cutoutHits =
+    cutoutDiameter > 0 ? findDiameter(points, cutoutDiameter) : [];
+  const measured =
+    measurePoints.length === 2
+      ? {
+          dx: measurePoints[1].x - measurePoints[0].x,
+          dy: measurePoints[1].y - measurePoints[0].y,
+        }
+      : null;
+
+  const selectChartTool = (tool: ChartTool) => {
+    setChartTool(tool);
+    setMeasurePoints([]);
+    setProbeX(null);
+  };
+
+  // Clicks snap to the wall within a few pixels, so lip and mouth points
+  // can be picked exactly
+  const handleChartPick = (point: Vec2, mmPerPixel: number) => {
+    if (chartTool === "measure") {
+      const picked = snapToWall(wallPoints, point, 8 * mmPerPixel) ?? point;
+      setMeasurePoints(
+        measurePoints.length === 1 ? [measurePoints[0], picked] : [picked]
+      );
+    } else if (chartTool === "probe") {
+      setProbeX(point.x);
+    }
+  };
+
+  // Saved designs pair the result with the job that produced it
+  const handleKeepDesign = () => {
+    const id = Math.max(0, ...savedDesigns.map((d) => d.id)) + 1;
+    setSavedDesigns([
+      ...savedDesigns,
+      saveDesign(resultJob, result, id, designName(resultJob)),
+    ]);
+  };
+
+  const updateDesign = (id: number, changes: Partial<SavedDesign>) =>
+    setSavedDesigns(
+      savedDesigns.map((d) => (d.id === id ? { ...d, ...changes } : d))
+    );
+
+  // Every input on the page, as saved in a project file
+  const currentProject = (): Project => ({
+    name: projectName,
+    notes: projectNotes,
+    design: {
+      family,
+      coneAngle,
+      coverageAngle,
       fc,
       T,
       d0,
       roundOver,
+      rollbackMode,
+      spiralGrowth,
+      clothoidRate,
+      lipRadius,
+      termination,
+      stopDiameter,
+      stopDepth,
+      stopLength,
+      crossSection,
+      throatWidth,
+      throatHeight,
+      mouthAspect,
+    },
+    shell: {
+      wallThickness,
+      flangeEnabled,
+      flange: {
+        outerDiameter: flangeDiameter,
+        thickness: flangeThickness,
+        boltCircleDiameter,
+        holeCount,
+        holeDiameter,
+      },
+    },
+    constraints: {
+      maxMouthDiameter,
+      lockMouthDiameter: isDiameterLocked,
+      maxDepth,
+      optimizeT,
+    },
+    solver: { tolerance },
+    exports: {
+      csv: csvOptions,
+      mesh: {
+        segments: meshSegments,
+        split: meshSplit,
+        axialParts,
+        keys: meshKeys,
+      },
+      template: {
+        paper: paperSize,
+        landscape,
+        overlap: pageOverlap,
+        stationSpacing,
+        mirror: mirrorTemplate,
+      },
+      slicer: { sheetThickness, ringWidth, cutStyle },
+      bezierTolerance: fitTolerance,
+      hornrespDriver,
+    },
+  });
+
+  const applyProject = (project: Project) => {
+    const { design, shell, constraints, exports } = project;
+    setProjectName(project.name);
+    setProjectNotes(project.notes);
+    setFamily(design.family);
+    setConeAngle(design.coneAngle);
+    setCoverageAngle(design.coverageAngle);
+    setFc(design.fc);
+    setT(design.T);
+    setD0(design.d0);
+    setRoundOver(design.roundOver);
+    setRollbackMode(design.rollbackMode);
+    setSpiralGrowth(design.spiralGrowth);
+    setClothoidRate(design.clothoidRate);
+    setLipRadius(design.lipRadius);
+    setTermination(design.termination);
+    setStopDiameter(design.stopDiameter);
+    setStopDepth(design.stopDepth);
+    setStopLength(design.stopLength);
+    setCrossSection(design.crossSection);
+    setThroatWidth(design.throatWidth);
+    setThroatHeight(design.throatHeight);
+    setMouthAspect(design.mouthAspect);
+    setWallThickness(shell.wallThickness);
+    setFlangeEnabled(shell.flangeEnabled);
+    setFlangeDiameter(shell.flange.outerDiameter);
+    setFlangeThickness(shell.flange.thickness);
+    setBoltCircleDiameter(shell.flange.boltCircleDiameter);
+    setHoleCount(shell.flange.holeCount);
+    setHoleDiameter(shell.flange.holeDiameter);
+    setMaxMouthDiameter(constraints.maxMouthDiameter);
+    setIsDiameterLocked(constraints.lockMouthDiameter);
+    setMaxDepth(constraints.maxDepth);
+    setOptimizeT(constraints.optimizeT);
+    setTolerance(project.solver.tolerance);
+    setCsvOptions(exports.csv);
+    setMeshSegments(exports.mesh.segments);
+    setMeshSplit(exports.mesh.split);
+    setAxialParts(exports.mesh.axialParts);
+    setMeshKeys(exports.mesh.keys);
+    setPaperSize(exports.template.paper);
+    setLandscape(exports.template.landscape);
+    setPageOverlap(exports.template.overlap);
+    setStationSpacing(exports.template.stationSpacing);
+    setMirrorTemplate(exports.template.mirror);
+    setSheetThickness(exports.slicer.sheetThickness);
+    setRingWidth(exports.slicer.ringWidth);
+    setCutStyle(exports.slicer.cutStyle);
+    setFitTolerance(exports.bezierTolerance);
+    setHornrespDriver(exports.hornrespDriver);
+    clearFit();
+  };
+
+  const handleSaveProject = () => {
+    const slug = projectName
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+    const timestamp = fileTimestamp();
+    downloadBlob(
+      new Blob([serializeProject(currentProject())], {
+        type: "application/json",
+      }),
+      `${family}-project${
+        slug ? `-${slug}` : ""
+      }-fc${fc}-T${T}-d${d0}-r${roundOver}-${timestamp}.json`
+    );
+  };
+
+  // A file with any invalid field is rejected whole and the design is kept
+  const handleOpenProject = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    file.text().then((text) => {
+      const result = parseProject(text);
+      if (!result.ok) {
+        setProjectErrors(result.errors);
+        setProjectStatus("");
+        return;
+      }
+      applyProject(result.project);
+      setProjectErrors([]);
+      setProjectStatus(
+        result.migratedFrom === null
+          ? `Loaded ${file.name}.`
+          : `Loaded ${file.name}, upgraded from version ${result.migratedFrom}. Save it again to keep the new format.`
+      );
     });
-    const logCsv = calculator.generateLog(points);
-    const blob = new Blob([logCsv], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    const timestamp = new Date()
-      .toISOString()
-      .replace(/[:.]/g, "-")
-      .slice(0, 19);
-    a.href = url;
-    a.download = `lecleach-log-fc${fc}-T${T}-d${d0}-r${roundOver}-depth${dimensions.depth.toFixed(
-      1
-    )}-mouth${dimensions.mouthDiameter.toFixed(1)}-${timestamp}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
   };
 
-  return (
-    <div className="min-h-screen bg-white text-gray-900 p-4 font-sans">
-      <div className="w-full grid grid-cols-1 lg:grid-cols-12 gap-6">
-        {/* Sidebar Controls */}
-        <aside className="lg:col-span-3 space-y-8 bg-gray-50 p-6 rounded-xl shadow-sm border border-gray-200 h-fit">
-          <div className="flex items-center gap-3 mb-2">
-            <Calculator className="w-8 h-8 text-blue-400" />
-            <h1 className="text-2xl font-bold text-gray-900 tracking-tight">
-              Le Cleac'h Horn Profile Generator
-            </h1>
-          </div>
+  // Load a kept design's parameters; wall, flange and export settings stay
+  const handlePromoteDesign = (id: number) => {
+    const design = savedDesigns.find((d) => d.id === id);
+    if (!design) return;
+    applyProject({
+      ...currentProject(),
+      design: jobDesign(design.job),
+      solver: { tolerance: design.job.tolerance },
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900 p-4 font-sans">
+      <div className="w-full grid grid-cols-1 lg:grid-cols-12 gap-6">
+        {/* Sidebar Controls */}
+        <aside className="lg:col-span-3 space-y-8 bg-gray-50 p-6 rounded-xl shadow-sm border border-gray-200 h-fit">
+          <div className="flex items-center gap-3 mb-2">
+            <Calculator className="w-8 h-8 text-blue-400" />
+            <h1 className="text-2xl font-bold text-gray-900 tracking-tight">
+              Le Cleac'h Horn Profile Generator
+            </h1>
+          </div>
+
+          <div className="space-y-6">
+            {/* Project file: every input plus name and notes */}
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+              <div className="flex items-center gap-2">
+                <FolderOpen className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">
+                  Project
+                </span>
+              </div>
+              <input
+                type="text"
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+                placeholder="Project name"
+                aria-label="Project name"
+                className="w-full bg-white border border-gray-300 rounded-lg px-3 py-1.5 text-sm text-gray-900 focus:outline-none focus:border-blue-500"
+              />
+              <textarea
+                value={projectNotes}
+                onChange={(e) => setProjectNotes(e.target.value)}
+                placeholder="Notes (driver, enclosure, build decisions…)"
+                aria-label="Project notes"
+                rows={3}
+                className="w-full bg-white border border-gray-300 rounded-lg px-3 py-1.5 text-sm text-gray-900 focus:outline-none focus:border-blue-500 resize-y"
+              />
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleSaveProject}
+                  className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm"
+                >
+                  <Save className="w-4 h-4" />
+                  Save
+                </button>
+                <label className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm cursor-pointer">
+                  <FolderOpen className="w-4 h-4" />
+                  Open…
+                  <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleOpenProject}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+              {projectStatus && (
+                <p className="text-xs text-gray-500">{projectStatus}</p>
+              )}
+              {projectErrors.length > 0 && (
+                <div className="flex items-start gap-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-200">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <div>
+                    <p>The project was not loaded:</p>
+                    <ul className="list-disc pl-4">
+                      {projectErrors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Horn Family Selector */}
+            <div className="space-y-2">
+              <label
+                htmlFor="family-select"
+                className="text-sm font-medium text-gray-700"
+              >
+                Horn Family
+              </label>
+              <select
+                id="family-select"
+                value={family}
+                onChange={(e) => setFamily(e.target.value as HornFamily)}
+                className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-blue-500"
+              >
+                {HORN_FAMILIES.map((f) => (
+                  <option key={f.value} value={f.value}>
+                    {f.label}
+                  </option>
+                ))}
+              </select>
+              {family !== "lecleach" && (
+                <p className="text-xs text-gray-500">
+                  Terminated at the mouth radius where ka = 1 at the cutoff.
+                </p>
+              )}
+            </div>
+
+            {/* Cutoff Frequency Control */}
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <label
+                  htmlFor="fc-slider"
+                  className="text-sm font-medium text-gray-700"
+                >
+                  Target Cutoff (Hz)
+                </label>
+              </div>
+              <div className="flex gap-3">
+                <input
+                  id="fc-slider"
+                  type="range"
+                  min="200"
+                  max="2000"
+                  step="5"
+                  value={fc}
+                  onChange={(e) => setFc(Number(e.target.value))}
+                  className="flex-1 cursor-pointer accent-blue-500"
+                />
+                <input
+                  aria-label="Target Cutoff Value"
+                  type="number"
+                  value={fc}
+                  onChange={(e) => setFc(Number(e.target.value))}
+                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-blue-600 font-mono focus:border-blue-500 outline-none"
+                />
+              </div>
+            </div>
+
+            {family === "lecleach" && (
+              <>
+                {/* Expansion Factor T Control */}
+                <div className="space-y-2">
+                  <div className="flex justify-between items-end">
+                    <label
+                      htmlFor="t-slider"
+                      className="text-sm font-medium text-gray-700"
+                    >
+                      Expansion Factor (T)
+                    </label>
+                  </div>
+
+                  <div className="flex gap-3">
+                    <input
+                      id="t-slider"
+                      type="range"
+                      min="0.5"
+                      max="2.0"
+                      step="0.05"
+                      value={T}
+                      onChange={(e) => setT(Number(e.target.value))}
+                      list="expansion-values"
+                      className="flex-1 cursor-pointer accent-green-500"
+                    />
+                    <datalist id="expansion-values">
+                      <option value="1.0" label="Suggested"></option>
+                    </datalist>
+
+                    <input
+                      aria-label="Expansion Factor Value"
+                      type="number"
+                      step="0.01"
+                      value={T}
+                      onChange={(e) => setT(Number(e.target.value))}
+                      className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-green-600 font-mono focus:border-green-500 outline-none"
+                    />
+                  </div>
+                </div>
+
+                {/* Rollback Control */}
+                <div className="space-y-2">
+                  <div className="flex justify-between items-end">
+                    <label
+                      htmlFor="rollback-slider"
+                      className="text-sm font-medium text-gray-700"
+                    >
+                      Rollback Angle (°)
+                    </label>
+                  </div>
+
+                  <div className="flex gap-3">
+                    <input
+                      id="rollback-slider"
+                      type="range"
+                      min="90"
+                      max="360"
+                      step="0.5"
+                      value={roundOver}
+                      onChange={(e) => setRoundOver(Number(e.target.value))}
+                      list="rollback-values"
+                      className="flex-1 cursor-pointer accent-purple-500"
+                    />
+                    <datalist id="rollback-values">
+                      <option value="180" label="Physical Limit"></option>
+                      <option value="360" label="Full Spiral"></option>
+                    </datalist>
+
+                    <input
+                      aria-label="Rollback Angle Value"
+                      type="number"
+                      step="0.1"
+                      value={roundOver}
+                      onChange={(e) => setRoundOver(Number(e.target.value))}
+                      className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-purple-600 font-mono focus:border-purple-500 outline-none"
+                    />
+                  </div>
+                </div>
+
+                {/* Rollback Mode */}
+                <div className="space-y-2">
+                  <label
+                    htmlFor="rollback-mode-select"
+                    className="text-sm font-medium text-gray-700"
+                  >
+                    Rollback Mode
+                  </label>
+                  <select
+                    id="rollback-mode-select"
+                    value={rollbackMode}
+                    onChange={(e) =>
+                      setRollbackMode(e.target.value as RollbackMode)
+                    }
+                    className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-purple-500"
+                  >
+                    <option value="spiral">Accelerated Spiral</option>
+                    <option value="physical">Physical Area Law</option>
+                    <option value="clothoid">Clothoid (Euler Spiral)</option>
+                    <option value="circular">Circular Lip</option>
+                  </select>
+                  {rollbackMode === "spiral" && (
+                    <div className="flex items-center justify-between gap-3">
+                      <label
+                        htmlFor="spiral-growth-input"
+                        className="text-xs text-gray-500"
+                      >
+                        Curvature Growth (%/mm)
+                      </label>
+                      <input
+                        id="spiral-growth-input"
+                        type="number"
+                        step="0.05"
+                        min="0"
+                        value={spiralGrowth}
+                        onChange={(e) =>
+                          setSpiralGrowth(Number(e.target.value))
+                        }
+                        className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-purple-600 font-mono focus:border-purple-500 outline-none"
+                      />
+                    </div>
+                  )}
+                  {rollbackMode === "clothoid" && (
+                    <div className="flex items-center justify-between gap-3">
+                      <label
+                        htmlFor="clothoid-rate-input"
+                        className="text-xs text-gray-500"
+                      >
+                        Curvature Rate (°/mm²)
+                      </label>
+                      <input
+                        id="clothoid-rate-input"
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        value={clothoidRate}
+                        onChange={(e) =>
+                          setClothoidRate(Number(e.target.value))
+                        }
+                        className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-purple-600 font-mono focus:border-purple-500 outline-none"
+                      />
+                    </div>
+                  )}
+                  {rollbackMode === "circular" && (
+                    <div className="flex items-center justify-between gap-3">
+                      <label
+                        htmlFor="lip-radius-input"
+                        className="text-xs text-gray-500"
+                      >
+                        Lip Radius (mm, 0 = auto)
+                      </label>
+                      <input
+                        id="lip-radius-input"
+                        type="number"
+                        min="0"
+                        value={lipRadius}
+                        onChange={(e) => setLipRadius(Number(e.target.value))}
+                        className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-purple-600 font-mono focus:border-purple-500 outline-none"
+                      />
+                    </div>
+                  )}
+                  {rollbackMode === "physical" && (
+                    <p className="text-xs text-gray-500">
+                      Follows the area law to its 180° limit, which can fold the
+                      lip far back behind the throat.
+                    </p>
+                  )}
+                </div>
+
+                {/* Termination */}
+                <div className="space-y-2">
+                  <label
+                    htmlFor="termination-select"
+                    className="text-sm font-medium text-gray-700"
+                  >
+                    Stop At
+                  </label>
+                  <select
+                    id="termination-select"
+                    value={termination}
+                    onChange={(e) =>
+                      setTermination(e.target.value as TerminationMode)
+                    }
+                    className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-purple-500"
+                  >
+                    <option value="angle">Rollback Angle</option>
+                    <option value="diameter">Mouth Diameter</option>
+                    <option value="depth">Axial Depth</option>
+                    <option value="length">Path Length</option>
+                  </select>
+                  {termination === "diameter" && (
+                    <div className="flex items-center justify-between gap-3">
+                      <label
+                        htmlFor="stop-diameter-input"
+                        className="text-xs text-gray-500"
+                      >
+                        {crossSection === "round"
+                          ? "Mouth Diameter (mm)"
+                          : "Mouth Width (mm)"}
+                      </label>
+                      <input
+                        id="stop-diameter-input"
+                        type="number"
+                        min="0"
+                        value={stopDiameter}
+                        onChange={(e) =>
+                          setStopDiameter(Number(e.target.value))
+                        }
+                        className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-purple-600 font-mono focus:border-purple-500 outline-none"
+                      />
+                    </div>
+                  )}
+                  {termination === "depth" && (
+                    <div className="flex items-center justify-between gap-3">
+                      <label
+                        htmlFor="stop-depth-input"
+                        className="text-xs text-gray-500"
+                      >
+                        Depth (mm)
+                      </label>
+                      <input
+                        id="stop-depth-input"
+                        type="number"
+                        min="0"
+                        value={stopDepth}
+                        onChange={(e) => setStopDepth(Number(e.target.value))}
+                        className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-purple-600 font-mono focus:border-purple-500 outline-none"
+                      />
+                    </div>
+                  )}
+                  {termination === "length" && (
+                    <div className="flex items-center justify-between gap-3">
+                      <label
+                        htmlFor="stop-length-input"
+                        className="text-xs text-gray-500"
+                      >
+                        Wall Length (mm)
+                      </label>
+                      <input
+                        id="stop-length-input"
+                        type="number"
+                        min="0"
+                        value={stopLength}
+                        onChange={(e) => setStopLength(Number(e.target.value))}
+                        className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-purple-600 font-mono focus:border-purple-500 outline-none"
+                      />
+                    </div>
+                  )}
+                  {termination !== "angle" && (
+                    <p className="text-xs text-gray-500">
+                      The rollback angle above still caps the wall; the angle it
+                      ends at is shown with the stats.
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
+
+            {/* Family specific angle controls */}
+            {family === "conical" && (
+              <div className="space-y-2">
+                <label
+                  htmlFor="cone-angle-input"
+                  className="text-sm font-medium text-gray-700"
+                >
+                  Cone Half-Angle (°)
+                </label>
+                <input
+                  id="cone-angle-input"
+                  type="number"
+                  min="1"
+                  max="89"
+                  value={coneAngle}
+                  onChange={(e) => setConeAngle(Number(e.target.value))}
+                  className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-blue-500"
+                />
+              </div>
+            )}
+            {family === "os" && (
+              <div className="space-y-2">
+                <label
+                  htmlFor="coverage-angle-input"
+                  className="text-sm font-medium text-gray-700"
+                >
+                  Coverage Half-Angle (°)
+                </label>
+                <input
+                  id="coverage-angle-input"
+                  type="number"
+                  min="1"
+                  max="89"
+                  value={coverageAngle}
+                  onChange={(e) => setCoverageAngle(Number(e.target.value))}
+                  className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-blue-500"
+                />
+              </div>
+            )}
+
+            <div className="h-px bg-gray-200 my-4"></div>
+
+            {/* Throat Diameter Control */}
+            <div className="space-y-2">
+              <label
+                htmlFor="d0-input"
+                className="text-sm font-medium text-gray-700"
+              >
+                Throat Diameter (mm)
+              </label>
+              <input
+                id="d0-input"
+                type="number"
+                value={d0}
+                onChange={(e) => setD0(Number(e.target.value))}
+                className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-blue-500"
+              />
+            </div>
+
+            {family === "lecleach" && (
+              <>
+                {/* Cross Section Control */}
+                <div className="space-y-2">
+                  <label
+                    htmlFor="section-select"
+                    className="text-sm font-medium text-gray-700"
+                  >
+                    Cross Section
+                  </label>
+                  <select
+                    id="section-select"
+                    value={crossSection}
+                    onChange={(e) =>
+                      setCrossSection(e.target.value as CrossSection)
+                    }
+                    className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-blue-500"
+                  >
+                    <option value="round">Round</option>
+                    <option value="elliptical">Elliptical</option>
+                    <option value="rectangular">Rectangular</option>
+                  </select>
+                  {crossSection !== "round" && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-gray-500">
+                        Throat W × H
+                      </span>
+                      <input
+                        aria-label="Throat Width"
+                        type="number"
+                        value={throatWidth}
+                        onChange={(e) => setThroatWidth(Number(e.target.value))}
+                        className="flex-1 min-w-0 bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-blue-500"
+                      />
+                      <input
+                        aria-label="Throat Height"
+                        type="number"
+                        value={throatHeight}
+                        onChange={(e) =>
+                          setThroatHeight(Number(e.target.value))
+                        }
+                        className="flex-1 min-w-0 bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-blue-500"
+                      />
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between gap-3">
+                    <label
+                      htmlFor="aspect-input"
+                      className="text-xs text-gray-500"
+                    >
+                      Mouth Aspect (W/H)
+                    </label>
+                    <input
+                      id="aspect-input"
+                      type="number"
+                      step="0.05"
+                      min="0.1"
+                      value={mouthAspect}
+                      onChange={(e) => setMouthAspect(Number(e.target.value))}
+                      className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+
+            {/* Solver Steps */}
+            <div className="space-y-2">
+              <label
+                htmlFor="tolerance-select"
+                className="text-sm font-medium text-gray-700"
+              >
+                Solver Steps
+              </label>
+              <select
+                id="tolerance-select"
+                value={tolerance}
+                onChange={(e) => setTolerance(Number(e.target.value))}
+                className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-blue-500"
+              >
+                <option value={0}>Fixed 0.5 mm steps (most accurate)</option>
+                <option value={0.001}>
+                  Adaptive, 0.001 mm chord deviation
+                </option>
+                <option value={0.01}>Adaptive, 0.01 mm chord deviation</option>
+                <option value={0.1}>Adaptive, 0.1 mm chord deviation</option>
+              </select>
+              {tolerance > 0 && (
+                <p className="text-xs text-gray-500">
+                  Adaptive steps only bound how far each chord strays from the
+                  curve it follows. Long steps still add up, so the profile can
+                  sit a few mm away from the fixed-step one.
+                </p>
+              )}
+            </div>
+
+            {/* Wall thickness and throat flange */}
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+              <div className="flex items-center gap-2">
+                <Layers className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">
+                  Wall &amp; Flange
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="wall-thickness-input"
+                  className="text-xs text-gray-500"
+                >
+                  Wall Thickness (mm, 0 = none)
+                </label>
+                <input
+                  id="wall-thickness-input"
+                  type="number"
+                  min="0"
+                  value={wallThickness}
+                  onChange={(e) => setWallThickness(Number(e.target.value))}
+                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={flangeEnabled}
+                  onChange={(e) => setFlangeEnabled(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                Throat mounting flange
+              </label>
+              {flangeEnabled && (
+                <div className="space-y-2">
+                  <select
+                    aria-label="Driver Preset"
+                    value=""
+                    onChange={(e) => handleFlangePreset(Number(e.target.value))}
+                    className="w-full bg-white border border-gray-300 rounded-lg px-3 py-1 text-sm text-gray-900 focus:outline-none focus:border-blue-500"
+                  >
+                    <option value="" disabled>
+                      Driver preset...
+                    </option>
+                    {DRIVER_FLANGE_PRESETS.map((preset, index) => (
+                      <option key={preset.label} value={index}>
+                        {preset.label}
+                      </option>
+                    ))}
+                  </select>
+                  {(
+                    [
+                      [
+                        "Outer Diameter (mm)",
+                        flangeDiameter,
+                        setFlangeDiameter,
+                      ],
+                      ["Thickness (mm)", flangeThickness, setFlangeThickness],
+                      [
+                        "Bolt Circle Ø (mm)",
+                        boltCircleDiameter,
+                        setBoltCircleDiameter,
+                      ],
+                      ["Hole Count", holeCount, setHoleCount],
+                      ["Hole Ø (mm)", holeDiameter, setHoleDiameter],
+                    ] as const
+                  ).map(([label, value, setValue]) => (
+                    <div
+                      key={label}
+                      className="flex items-center justify-between gap-3"
+                    >
+                      <span className="text-xs text-gray-500">{label}</span>
+                      <input
+                        aria-label={`Flange ${label}`}
+                        type="number"
+                        min="0"
+                        value={value}
+                        onChange={(e) => setValue(Number(e.target.value))}
+                        className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
+                      />
+                    </div>
+                  ))}
+                  {flangeWarning && (
+                    <div className="flex items-start gap-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-200">
+                      <AlertTriangle className="w-4 h-4 shrink-0" />
+                      <div>{flangeWarning}</div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Fitted Bézier curve export */}
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+              <div className="flex items-center gap-2">
+                <Spline className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">
+                  Smooth Curve (Bézier)
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="fit-tolerance-input"
+                  className="text-xs text-gray-500"
+                >
+                  Max Deviation (mm)
+                </label>
+                <input
+                  id="fit-tolerance-input"
+                  type="number"
+                  min="0.001"
+                  step="0.01"
+                  value={fitTolerance}
+                  onChange={(e) => setFitTolerance(Number(e.target.value))}
+                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={showFit}
+                  onChange={(e) => setShowFit(e.target.checked)}
+                  className="accent-blue-500"
+                />
+                Show fit on chart
+              </label>
+              <div className="flex gap-2">
+                {(["csv", "svg"] as const).map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => handleDownloadBezier(format)}
+                    disabled={bezierFit.segments.length === 0}
+                    className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+                  >
+                    <Download className="w-4 h-4" />
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                {bezierFit.segments.length} cubic span
+                {bezierFit.segments.length === 1 ? "" : "s"} (
+                {bezierFit.segments.length * 3 + 1} control points) for{" "}
+                {points.length} profile points. Achieved max deviation{" "}
+                {bezierFit.maxError.toFixed(3)} mm
+                {isAxisymmetric ? "" : ", horizontal wall only"}.
+              </p>
+            </div>
+
+            {/* Imported profile for overlay and comparison */}
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+              <div className="flex items-center gap-2">
+                <FileUp className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">
+                  Import Profile
+                </span>
+              </div>
+              <label className="flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm cursor-pointer">
+                <FileUp className="w-4 h-4" />
+                Load CSV…
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv,text/plain"
+                  onChange={handleImportFile}
+                  className="hidden"
+                />
+              </label>
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="import-units-select"
+                  className="text-xs text-gray-500"
+                >
+                  Units
+                </label>
+                <select
+                  id="import-units-select"
+                  value={importUnits}
+                  onChange={(e) =>
+                    setImportUnits(e.target.value as ImportUnits)
+                  }
+                  className="bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 focus:outline-none focus:border-blue-500"
+                >
+                  <option value="auto">Auto</option>
+                  <option value="mm">mm</option>
+                  <option value="cm">cm</option>
+                  <option value="m">m</option>
+                  <option value="in">inch</option>
+                </select>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="import-axis-select"
+                  className="text-xs text-gray-500"
+                >
+                  Horn Axis Column
+                </label>
+                <select
+                  id="import-axis-select"
+                  value={importAxis}
+                  onChange={(e) => setImportAxis(e.target.value as ImportAxis)}
+                  className="bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 focus:outline-none focus:border-blue-500"
+                >
+                  <option value="auto">Auto</option>
+                  <option value="x">X</option>
+                  <option value="y">Y</option>
+                  <option value="z">Z</option>
+                </select>
+              </div>
+              {importFile && (
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-600">
+                  <span className="truncate font-mono">{importFile.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => setImportFile(null)}
+                    className="text-gray-400 hover:text-gray-600"
+                    aria-label="Clear imported profile"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+              {importResult && !importResult.ok && (
+                <div className="flex items-start gap-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-200">
+                  <AlertTriangle className="w-4 h-4 shrink-0" />
+                  <div>{importResult.error}</div>
+                </div>
+              )}
+              {imported && (
+                <p className="text-xs text-gray-500">
+                  {imported.rows} points in {imported.units}
+                  {imported.unitSource === "header"
+                    ? " (from header)"
+                    : imported.unitSource === "scale"
+                    ? " (guessed from throat size)"
+                    : ""}
+                  , axis on {imported.axis.toUpperCase()} and radius on{" "}
+                  {imported.radialAxis.toUpperCase()}
+                  {imported.reversed ? ", reversed to start at the throat" : ""}
+                  {imported.skippedBlocks > 0
+                    ? `; ${imported.skippedBlocks} later block${
+                        imported.skippedBlocks === 1 ? "" : "s"
+                      } ignored`
+                    : ""}
+                  .
+                </p>
+              )}
+              {deviation && (
+                <table className="w-full text-xs font-mono text-right text-gray-700">
+                  <tbody>
+                    <tr>
+                      <td className="text-left text-gray-500 font-sans">
+                        Max Δ radius
+                      </td>
+                      <td>
+                        {deviation.maxRadial.toFixed(2)} mm at{" "}
+                        {deviation.maxAt.toFixed(0)}
+                      </td>
+                    </tr>
+                    <tr>
+                      <td className="text-left text-gray-500 font-sans">
+                        RMS Δ radius
+                      </td>
+                      <td>{deviation.rmsRadial.toFixed(2)} mm</td>
+                    </tr>
+                    <tr>
+                      <td className="text-left text-gray-500 font-sans">
+                        Δ depth
+                      </td>
+                      <td>{deviation.depthDelta.toFixed(1)} mm</td>
+                    </tr>
+                    <tr>
+                      <td className="text-left text-gray-500 font-sans">
+                        Δ mouth Ø
+                      </td>
+                      <td>{deviation.mouthDelta.toFixed(1)} mm</td>
+                    </tr>
+                  </tbody>
+                </table>
+              )}
+              {deviation && (
+                <p className="text-xs text-gray-500">
+                  Imported minus current
+                  {isAxisymmetric ? "" : " horizontal wall"}. Radii are compared
+                  at equal length over the {deviation.overlap.toFixed(0)} mm
+                  both profiles cover before any rollback.
+                </p>
+              )}
+            </div>
+
+            {/* 3D print mesh export */}
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+              <div className="flex items-center gap-2">
+                <Box className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">
+                  3D Print Mesh
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="mesh-segments-select"
+                  className="text-xs text-gray-500"
+                >
+                  Angular Resolution
+                </label>
+                <select
+                  id="mesh-segments-select"
+                  value={meshSegments}
+                  onChange={(e) => setMeshSegments(Number(e.target.value))}
+                  className="bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 focus:outline-none focus:border-blue-500"
+                >
+                  <option value={48}>48 (draft)</option>
+                  <option value={96}>96</option>
+                  <option value={180}>180</option>
+                  <option value={360}>360 (fine)</option>
+                </select>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="mesh-split-select"
+                  className="text-xs text-gray-500"
+                >
+                  Split
+                </label>
+                <select
+                  id="mesh-split-select"
+                  value={meshSplit}
+                  onChange={(e) => setMeshSplit(e.target.value as MeshSplit)}
+                  className="bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 focus:outline-none focus:border-blue-500"
+                >
+                  <option value="none">Single part</option>
+                  <option value="axial">Axial segments</option>
+                  <option value="quarters">Quarter shells</option>
+                </select>
+              </div>
+              {meshSplit === "axial" && (
+                <div className="flex items-center justify-between gap-3">
+                  <label
+                    htmlFor="axial-parts-input"
+                    className="text-xs text-gray-500"
+                  >
+                    Segments
+                  </label>
+                  <input
+                    id="axial-parts-input"
+                    type="number"
+                    min="2"
+                    max="20"
+                    value={axialParts}
+                    onChange={(e) => setAxialParts(Number(e.target.value))}
+                    className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
+                  />
+                </div>
+              )}
+              {meshSplit === "quarters" && (
+                <label className="flex items-center gap-2 text-xs text-gray-500">
+                  <input
+                    type="checkbox"
+                    checked={meshKeys}
+                    onChange={(e) => setMeshKeys(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  Alignment keys (tab and notch on each seam)
+                </label>
+              )}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleDownloadMesh("stl")}
+                  disabled={!canExportMesh}
+                  className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-4 h-4" />
+                  STL
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDownloadMesh("3mf")}
+                  disabled={!canExportMesh}
+                  className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-4 h-4" />
+                  3MF
+                </button>
+              </div>
+              {!canExportMesh && (
+                <p className="text-xs text-gray-500">
+                  {isAxisymmetric
+                    ? "Set a wall thickness above to export a printable solid."
+                    : "Mesh export revolves the profile, so it needs a round cross section."}
+                </p>
+              )}
+            </div>
+
+            {/* Parametric CAD scripts */}
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+              <div className="flex items-center gap-2">
+                <Code className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">
+                  CAD Script
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleDownloadScript("scad")}
+                  disabled={!canExportMesh}
+                  className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-4 h-4" />
+                  OpenSCAD
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDownloadScript("py")}
+                  disabled={!canExportMesh}
+                  className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-4 h-4" />
+                  CadQuery
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Self-contained scripts with the design parameters, the profile,
+                and editable wall and flange settings. They revolve the horn
+                with the same resolution as the mesh.
+              </p>
+            </div>
 
-          <div className="space-y-6">
-            {/* Cutoff Frequency Control */}
-            <div className="space-y-2">
-              <div className="flex justify-between items-center">
+            {/* 1:1 paper template */}
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+              <div className="flex items-center gap-2">
+                <Printer className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">
+                  Print Template (1:1)
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <label htmlFor="paper-select" className="text-xs text-gray-500">
+                  Paper
+                </label>
+                <select
+                  id="paper-select"
+                  value={paperSize}
+                  onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+                  className="bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 focus:outline-none focus:border-blue-500"
+                >
+                  <option value="a4">A4</option>
+                  <option value="letter">Letter</option>
+                </select>
+              </div>
+              <div className="flex items-center justify-between gap-3">
                 <label
-                  htmlFor="fc-slider"
-                  className="text-sm font-medium text-gray-700"
+                  htmlFor="overlap-input"
+                  className="text-xs text-gray-500"
                 >
-                  Target Cutoff (Hz)
+                  Page Overlap (mm)
                 </label>
-              </div>
-              <div className="flex gap-3">
-                <input
-                  id="fc-slider"
-                  type="range"
-                  min="200"
-                  max="2000"
-                  step="5"
-                  value={fc}
-                  onChange={(e) => setFc(Number(e.target.value))}
-                  className="flex-1 cursor-pointer accent-blue-500"
-                />
                 <input
-                  aria-label="Target Cutoff Value"
+                  id="overlap-input"
                   type="number"
-                  value={fc}
-                  onChange={(e) => setFc(Number(e.target.value))}
-                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-blue-600 font-mono focus:border-blue-500 outline-none"
+                  min="0"
+                  value={pageOverlap}
+                  onChange={(e) => setPageOverlap(Number(e.target.value))}
+                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
                 />
               </div>
-            </div>
-
-            {/* Expansion Factor T Control */}
-            <div className="space-y-2">
-              <div className="flex justify-between items-end">
+              <div className="flex items-center justify-between gap-3">
                 <label
-                  htmlFor="t-slider"
-                  className="text-sm font-medium text-gray-700"
+                  htmlFor="station-input"
+                  className="text-xs text-gray-500"
                 >
-                  Expansion Factor (T)
+                  Station Ticks (mm)
                 </label>
+                <input
+                  id="station-input"
+                  type="number"
+                  min="1"
+                  value={stationSpacing}
+                  onChange={(e) => setStationSpacing(Number(e.target.value))}
+                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
+                />
               </div>
-
-              <div className="flex gap-3">
+              <label className="flex items-center gap-2 text-xs text-gray-500">
                 <input
-                  id="t-slider"
-                  type="range"
-                  min="0.5"
-                  max="2.0"
-                  step="0.05"
-                  value={T}
-                  onChange={(e) => setT(Number(e.target.value))}
-                  list="expansion-values"
-                  className="flex-1 cursor-pointer accent-green-500"
+                  type="checkbox"
+                  checked={landscape}
+                  onChange={(e) => setLandscape(e.target.checked)}
+                  className="accent-blue-500"
                 />
-                <datalist id="expansion-values">
-                  <option value="1.0" label="Suggested"></option>
-                </datalist>
-
+                Landscape
+              </label>
+              <label className="flex items-center gap-2 text-xs text-gray-500">
                 <input
-                  aria-label="Expansion Factor Value"
-                  type="number"
-                  step="0.01"
-                  value={T}
-                  onChange={(e) => setT(Number(e.target.value))}
-                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-green-600 font-mono focus:border-green-500 outline-none"
+                  type="checkbox"
+                  checked={mirrorTemplate}
+                  onChange={(e) => setMirrorTemplate(e.target.checked)}
+                  className="accent-blue-500"
                 />
+                Draw both halves
+              </label>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => handleDownloadTemplate("pdf")}
+                  className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm"
+                >
+                  <Download className="w-4 h-4" />
+                  PDF
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDownloadTemplate("svg")}
+                  className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm"
+                >
+                  <Download className="w-4 h-4" />
+                  SVG (.zip)
+                </button>
               </div>
+              <p className="text-xs text-gray-500">
+                {template.pages.length} page
+                {template.pages.length === 1 ? "" : "s"} ({template.rows} ×{" "}
+                {template.cols}). Print at 100% and check the 100 mm ruler.
+              </p>
             </div>
 
-            {/* Rollback Control */}
-            <div className="space-y-2">
-              <div className="flex justify-between items-end">
+            {/* Stacked sheet construction */}
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+              <div className="flex items-center gap-2">
+                <Layers className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">
+                  Stacked Layers
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-3">
                 <label
-                  htmlFor="rollback-slider"
-                  className="text-sm font-medium text-gray-700"
+                  htmlFor="sheet-thickness-input"
+                  className="text-xs text-gray-500"
                 >
-                  Rollback Angle (°)
+                  Sheet Thickness (mm)
                 </label>
-              </div>
-
-              <div className="flex gap-3">
                 <input
-                  id="rollback-slider"
-                  type="range"
-                  min="90"
-                  max="360"
+                  id="sheet-thickness-input"
+                  type="number"
+                  min="1"
                   step="0.5"
-                  value={roundOver}
-                  onChange={(e) => setRoundOver(Number(e.target.value))}
-                  list="rollback-values"
-                  className="flex-1 cursor-pointer accent-purple-500"
+                  value={sheetThickness}
+                  onChange={(e) => setSheetThickness(Number(e.target.value))}
+                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
                 />
-                <datalist id="rollback-values">
-                  <option value="180" label="Physical Limit"></option>
-                  <option value="360" label="Full Spiral"></option>
-                </datalist>
-
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="ring-width-input"
+                  className="text-xs text-gray-500"
+                >
+                  Ring Width (mm)
+                </label>
                 <input
-                  aria-label="Rollback Angle Value"
+                  id="ring-width-input"
                   type="number"
-                  step="0.1"
-                  value={roundOver}
-                  onChange={(e) => setRoundOver(Number(e.target.value))}
-                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-purple-600 font-mono focus:border-purple-500 outline-none"
+                  min="1"
+                  value={ringWidth}
+                  onChange={(e) => setRingWidth(Number(e.target.value))}
+                  className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
                 />
               </div>
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="cut-style-select"
+                  className="text-xs text-gray-500"
+                >
+                  Inner Cut
+                </label>
+                <select
+                  id="cut-style-select"
+                  value={cutStyle}
+                  onChange={(e) => setCutStyle(e.target.value as CutStyle)}
+                  className="bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 focus:outline-none focus:border-blue-500"
+                >
+                  <option value="stepped">Stepped</option>
+                  <option value="bevel">Bevel</option>
+                </select>
+              </div>
+              <div className="flex gap-2">
+                {(["csv", "dxf", "svg"] as const).map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => handleDownloadSlices(format)}
+                    disabled={!slices}
+                    className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+                  >
+                    <Download className="w-4 h-4" />
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                {slices
+                  ? "DXF and SVG download as a ZIP with one drawing per sheet."
+                  : "Rings need a round cross section."}
+              </p>
             </div>
 
-            <div className="h-px bg-gray-200 my-4"></div>
-
-            {/* Throat Diameter Control */}
-            <div className="space-y-2">
-              <label
-                htmlFor="d0-input"
-                className="text-sm font-medium text-gray-700"
+            {/* Hornresp record export */}
+            <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+              <div className="flex items-center gap-2">
+                <Waves className="w-4 h-4 text-gray-500" />
+                <span className="text-sm font-medium text-gray-700">
+                  Hornresp Export
+                </span>
+              </div>
+              <table className="w-full text-xs font-mono text-right text-gray-700">
+                <thead className="text-gray-500 font-sans">
+                  <tr>
+                    <th className="text-left font-normal">Seg</th>
+                    <th className="font-normal">S in/out (cm²)</th>
+                    <th className="font-normal">L (cm)</th>
+                    <th className="font-normal">Flare</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {hornrespFit.segments.map((segment, i) => (
+                    <tr key={i}>
+                      <td className="text-left">
+                        S{i + 1}–S{i + 2}
+                      </td>
+                      <td>
+                        {segment.s1.toFixed(1)} / {segment.s2.toFixed(1)}
+                      </td>
+                      <td>{segment.length.toFixed(1)}</td>
+                      <td>{segment.flare}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500">
+                Area error: max {(hornrespFit.maxError * 100).toFixed(2)}%, RMS{" "}
+                {(hornrespFit.rmsError * 100).toFixed(2)}%
+              </p>
+              <div className="space-y-3">
+                {HORNRESP_DRIVER_FIELDS.map(({ key, label }) => (
+                  <div
+                    key={key}
+                    className="flex items-center justify-between gap-3"
+                  >
+                    <label
+                      htmlFor={`hornresp-${key}-input`}
+                      className="text-xs text-gray-500"
+                    >
+                      {label}
+                    </label>
+                    <input
+                      id={`hornresp-${key}-input`}
+                      type="number"
+                      step="any"
+                      value={hornrespDriver[key]}
+                      onChange={(e) =>
+                        setHornrespDriver({
+                          ...hornrespDriver,
+                          [key]: Number(e.target.value),
+                        })
+                      }
+                      className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
+                    />
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={handleDownloadHornresp}
+                disabled={hornrespFit.segments.length === 0}
+                className="w-full flex items-center justify-center gap-2 font-semibold py-2 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
               >
-                Throat Diameter (mm)
-              </label>
-              <input
-                id="d0-input"
-                type="number"
-                value={d0}
-                onChange={(e) => setD0(Number(e.target.value))}
-                className="w-full bg-white border border-gray-300 rounded-lg px-3 py-2 text-gray-900 focus:outline-none focus:border-blue-500"
-              />
+                <Download className="w-4 h-4" />
+                Hornresp Record (.txt)
+              </button>
+              <p className="text-xs text-gray-500">
+                Areas follow the target area law along the path length. The
+                driver values are placeholders; enter your own here or in
+                Hornresp.
+              </p>
             </div>
 
             {/* Constraint: Max Mouth Diameter */}
@@ -448,17 +2544,109 @@ function App() {
                   {diameterExceeded && (
                     <div className="flex items-start gap-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-200">
                       <AlertTriangle className="w-4 h-4 shrink-0" />
-                      <div>Mouth exceeds limit! Increase Cutoff to fit.</div>
+                      <div>
+                        Mouth exceeds limit!{" "}
+                        {family === "lecleach"
+                          ? "Use the fit solver below to find a cutoff that fits."
+                          : "Increase Cutoff to fit."}
+                      </div>
                     </div>
                   )}
                 </div>
               )}
             </div>
 
+            {family === "lecleach" && (
+              <>
+                {/* Inverse Solver: fit fc/T to the size limits */}
+                <div className="bg-gray-50 p-4 rounded-lg border border-gray-200 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Crosshair className="w-4 h-4 text-gray-500" />
+                    <span className="text-sm font-medium text-gray-700">
+                      Fit Solver
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-3">
+                    <label
+                      htmlFor="max-depth-input"
+                      className="text-xs text-gray-500"
+                    >
+                      Max Depth (mm, 0 = none)
+                    </label>
+                    <input
+                      id="max-depth-input"
+                      type="number"
+                      min="0"
+                      value={maxDepth}
+                      onChange={(e) => setMaxDepth(Number(e.target.value))}
+                      className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none"
+                    />
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-gray-500">
+                    <input
+                      type="checkbox"
+                      checked={optimizeT}
+                      onChange={(e) => setOptimizeT(e.target.checked)}
+                      className="accent-blue-500"
+                    />
+                    Also optimize Expansion Factor (T)
+                  </label>
+                  <p className="text-xs text-gray-500">
+                    Finds the lowest cutoff that fits the mouth limit (when
+                    constrained) and max depth, keeping throat and rollback
+                    fixed.
+                  </p>
+                  <button
+                    type="button"
+                    onClick={handleSolve}
+                    disabled={isSolving || (!isDiameterLocked && maxDepth <= 0)}
+                    className="w-full flex items-center justify-center gap-2 font-semibold py-2 px-4 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+                  >
+                    {isSolving ? "Solving..." : "Solve for Constraints"}
+                  </button>
+                  {fitError && (
+                    <div className="flex items-start gap-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-200">
+                      <AlertTriangle className="w-4 h-4 shrink-0" />
+                      <div>Solve failed: {fitError}</div>
+                    </div>
+                  )}
+                  {fitResult && !fitResult.feasible && (
+                    <div className="flex items-start gap-2 text-xs text-red-600 bg-red-50 p-2 rounded border border-red-200">
+                      <AlertTriangle className="w-4 h-4 shrink-0" />
+                      <div>
+                        No cutoff up to {fitResult.fc} Hz fits these limits.
+                        Relax the limits or reduce the rollback angle.
+                      </div>
+                    </div>
+                  )}
+                  {fitResult && fitResult.feasible && (
+                    <div className="text-xs bg-white p-2 rounded border border-gray-200 space-y-2">
+                      <div className="font-mono text-gray-700">
+                        <p>
+                          fc = {fitResult.fc} Hz, T = {fitResult.T.toFixed(2)}
+                        </p>
+                        <p className="text-gray-500">
+                          Mouth {fitResult.mouthDiameter.toFixed(1)} mm, depth{" "}
+                          {fitResult.depth.toFixed(1)} mm
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={handleApplyFit}
+                        className="w-full font-semibold py-1 px-3 rounded bg-blue-600 hover:bg-blue-700 text-white"
+                      >
+                        Apply
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+
             <div className="pt-2">
               <button
                 type="button"
-                onClick={handleDownload}
+                onClick={() => setIsCsvDialogOpen(true)}
                 disabled={diameterExceeded}
                 className={`w-full flex items-center justify-center gap-2 font-semibold py-3 px-4 rounded-lg transition-colors focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900
                     ${
@@ -468,7 +2656,16 @@ function App() {
                     }`}
               >
                 <Download className="w-5 h-5" />
-                Download 3D Spline (.csv)
+                Download 3D Spline (.csv)…
+              </button>
+              <button
+                type="button"
+                onClick={handleDownloadDXF}
+                disabled={diameterExceeded}
+                className="w-full mt-3 flex items-center justify-center gap-2 font-semibold py-2 px-4 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+              >
+                <Download className="w-4 h-4" />
+                Download 2D Profile (.dxf)
               </button>
               <button
                 type="button"
@@ -478,9 +2675,21 @@ function App() {
                 <Activity className="w-4 h-4" />
                 Download Calculation Log
               </button>
+              {shell && (
+                <button
+                  type="button"
+                  onClick={handleDownloadShell}
+                  className="w-full mt-3 flex items-center justify-center gap-2 font-semibold py-2 px-4 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-100 border border-gray-300 shadow-sm"
+                >
+                  <Layers className="w-4 h-4" />
+                  Download Shell &amp; Flange (.csv)
+                </button>
+              )}
               <p className="text-xs text-center mt-3 text-gray-500">
-                Generates an XYZ point list (cm) optimized for Fusion 360 spline
-                import.
+                Generates an XYZ point list (cm by default) optimized for Fusion
+                360 spline import; units, axes and resampling are set when
+                downloading. The DXF is a layered half-section in millimetres
+                for CNC and laser work.
               </p>
             </div>
           </div>
@@ -502,14 +2711,141 @@ function App() {
                   <div className="flex gap-4 text-sm">
                     <div className="flex items-center gap-2">
                       <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-                      <span className="text-gray-600">Profile Wall</span>
+                      <span className="text-gray-600">
+                        {isAxisymmetric ? "Profile Wall" : "Horizontal Wall"}
+                      </span>
                     </div>
+                    {!isAxisymmetric && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-orange-600 rounded-full"></div>
+                        <span className="text-gray-600">Vertical Wall</span>
+                      </div>
+                    )}
+                    {shell && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-gray-600 rounded-full"></div>
+                        <span className="text-gray-600">Shell</span>
+                      </div>
+                    )}
+                    {showFit && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-red-600 rounded-full"></div>
+                        <span className="text-gray-600">Bézier Fit</span>
+                      </div>
+                    )}
+                    {imported && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-emerald-600 rounded-full"></div>
+                        <span className="text-gray-600">Imported</span>
+                      </div>
+                    )}
+                    {showWavefronts && (
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-sky-500 rounded-full"></div>
+                        <span className="text-gray-600">Wavefronts</span>
+                      </div>
+                    )}
                     <div className="flex items-center gap-2">
                       <div className="w-3 h-3 border border-gray-400 rounded-full"></div>
                       <span className="text-gray-500 text-xs">
                         1:1 Scale (True Shape)
                       </span>
                     </div>
+                    <label className="flex items-center gap-2 text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={showResidual}
+                        onChange={(e) => setShowResidual(e.target.checked)}
+                        className="accent-blue-500"
+                      />
+                      Colour by residual
+                    </label>
+                  </div>
+                </div>
+
+                {/* Chart tools */}
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                  <div className="flex items-center gap-1">
+                    {CHART_TOOLS.map(({ value, label, icon: Icon }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        aria-pressed={chartTool === value}
+                        onClick={() => selectChartTool(value)}
+                        className={`flex items-center gap-1.5 px-3 py-1 text-sm rounded-lg transition-colors ${
+                          chartTool === value
+                            ? "bg-blue-600 text-white"
+                            : "text-gray-600 hover:bg-gray-100"
+                        }`}
+                      >
+                        <Icon className="w-4 h-4" />
+                        {label}
+                      </button>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() => setZoomedView(null)}
+                      disabled={zoomedView === null}
+                      className="flex items-center gap-1.5 px-3 py-1 text-sm rounded-lg transition-colors text-gray-600 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+                    >
+                      <Maximize2 className="w-4 h-4" />
+                      Reset View
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={showWavefronts}
+                          onChange={(e) => setShowWavefronts(e.target.checked)}
+                          className="accent-sky-500"
+                        />
+                        Wavefronts
+                      </label>
+                      {showWavefronts && (
+                        <>
+                          every
+                          <input
+                            aria-label="Wavefront interval"
+                            type="number"
+                            min="1"
+                            value={wavefrontInterval}
+                            onChange={(e) =>
+                              setWavefrontInterval(Number(e.target.value))
+                            }
+                            className="w-16 bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 font-mono focus:outline-none focus:border-blue-500"
+                          />
+                          <select
+                            aria-label="Wavefront spacing"
+                            value={wavefrontSpacing}
+                            onChange={(e) =>
+                              setWavefrontSpacing(
+                                e.target.value as WavefrontSpacing
+                              )
+                            }
+                            className="bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 focus:outline-none focus:border-blue-500"
+                          >
+                            <option value="length">mm of wall</option>
+                            <option value="points">points</option>
+                          </select>
+                        </>
+                      )}
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      Find x for Ø
+                      <input
+                        type="number"
+                        min="0"
+                        value={cutoutDiameter || ""}
+                        placeholder="—"
+                        onChange={(e) =>
+                          setCutoutDiameter(Number(e.target.value))
+                        }
+                        className="w-20 bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 font-mono focus:outline-none focus:border-blue-500"
+                      />
+                      mm
+                    </label>
                   </div>
                 </div>
 
@@ -518,6 +2854,13 @@ function App() {
                     <LineChart
                       data={chartData}
                       margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+                      onMouseMove={(state) => {
+                        const p = chartData[Number(state.activeTooltipIndex)];
+                        if (state.isTooltipActive && p) {
+                          setHoverLength(p.length);
+                        }
+                      }}
+                      onMouseLeave={() => setHoverLength(null)}
                     >
                       <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
                       <XAxis
@@ -530,7 +2873,7 @@ function App() {
                           fill: "#4B5563",
                         }}
                         stroke="#9CA3AF"
-                        domain={xDomain}
+                        domain={view.xDomain}
                         allowDataOverflow={true}
                         tick={{ fill: "#4B5563" }}
                       />
@@ -542,7 +2885,7 @@ function App() {
                           fill: "#4B5563",
                         }}
                         stroke="#9CA3AF"
-                        domain={yDomain}
+                        domain={view.yDomain}
                         allowDataOverflow={true}
                         tick={{ fill: "#4B5563" }}
                       />
@@ -550,6 +2893,10 @@ function App() {
                         content={({ active, payload }) => {
                           if (active && payload && payload.length) {
                             const data = payload[0].payload;
+                            const hoverWavefront = nearestByLength(
+                              wavefrontArcs,
+                              data.length
+                            );
                             return (
                               <div className="bg-white border border-gray-200 p-3 rounded shadow-lg text-sm">
                                 <p className="text-gray-600 mb-1">
@@ -563,6 +2910,11 @@ function App() {
                                 </p>
                                 <div className="border-t border-gray-200 pt-1 mt-1 text-xs text-gray-500">
                                   <p>Δ Angle: {data.deltaAngle.toFixed(3)}°</p>
+                                  <p>
+                                    Residual:{" "}
+                                    {(data.residual * 100).toPrecision(3)}% (
+                                    {data.regime})
+                                  </p>
                                   <p>
                                     Growth:{" "}
                                     {(
@@ -573,6 +2925,32 @@ function App() {
                                     %
                                   </p>
                                 </div>
+                                {hoverWavefront && (
+                                  <div className="border-t border-gray-200 pt-1 mt-1 text-xs text-sky-700">
+                                    <p>
+                                      Wavefront at{" "}
+                                      {hoverWavefront.length.toFixed(1)} mm
+                                    </p>
+                                    <p className="font-mono">
+                                      Cap:{" "}
+                                      {(hoverWavefront.capArea / 100).toFixed(
+                                        2
+                                      )}{" "}
+                                      cm²
+                                    </p>
+                                    <p className="font-mono">
+                                      Target:{" "}
+                                      {(
+                                        hoverWavefront.targetArea / 100
+                                      ).toFixed(2)}{" "}
+                                      cm² (
+                                      {(
+                                        hoverWavefront.residual * 100
+                                      ).toPrecision(3)}
+                                      %)
+                                    </p>
+                                  </div>
+                                )}
                               </div>
                             );
                           }
@@ -585,7 +2963,20 @@ function App() {
                         dataKey="y"
                         stroke="#2563EB"
                         strokeWidth={3}
-                        dot={false}
+                        strokeOpacity={showResidual ? 0.15 : 1}
+                        dot={
+                          showResidual
+                            ? ({ cx, cy, index, payload }) => (
+                                <circle
+                                  key={index}
+                                  cx={cx}
+                                  cy={cy}
+                                  r={2.5}
+                                  fill={residualColor(payload.residual)}
+                                />
+                              )
+                            : false
+                        }
                         activeDot={{ r: 6 }}
                         isAnimationActive={false} // Disable animation for responsiveness
                       />
@@ -599,6 +2990,195 @@ function App() {
                         strokeOpacity={0.3}
                         isAnimationActive={false}
                       />
+                      {/* Vertical (height) wall of non-round horns */}
+                      {!isAxisymmetric && (
+                        <>
+                          <Line
+                            data={verticalChartData}
+                            type="monotone"
+                            dataKey="y"
+                            stroke="#EA580C"
+                            strokeWidth={3}
+                            dot={false}
+                            isAnimationActive={false}
+                          />
+                          <Line
+                            data={verticalChartData}
+                            type="monotone"
+                            dataKey="negY"
+                            stroke="#EA580C"
+                            strokeWidth={3}
+                            dot={false}
+                            strokeOpacity={0.3}
+                            isAnimationActive={false}
+                          />
+                        </>
+                      )}
+                      {/* Outer wall and throat flange */}
+                      {shell && (
+                        <>
+                          {[
+                            shell.outerChartData,
+                            shell.verticalOuterChartData,
+                            shell.flangeChartData,
+                          ].map((data, index) =>
+                            data.length > 0 ? (
+                              <Fragment key={index}>
+                                <Line
+                                  data={data}
+                                  type="linear"
+                                  dataKey="y"
+                                  stroke={index === 1 ? "#9A3412" : "#4B5563"}
+                                  strokeWidth={1.5}
+                                  dot={false}
+                                  tooltipType="none"
+                                  isAnimationActive={false}
+                                />
+                                <Line
+                                  data={data}
+                                  type="linear"
+                                  dataKey="negY"
+                                  stroke={index === 1 ? "#9A3412" : "#4B5563"}
+                                  strokeWidth={1.5}
+                                  strokeOpacity={0.3}
+                                  dot={false}
+                                  tooltipType="none"
+                                  isAnimationActive={false}
+                                />
+                              </Fragment>
+                            ) : null
+                          )}
+                          {/* Bolt circle through the flange */}
+                          {boltCircle &&
+                            [1, -1].map((side) => (
+                              <ReferenceLine
+                                key={side}
+                                segment={[
+                                  {
+                                    x: boltCircle.x,
+                                    y: side * boltCircle.radius,
+                                  },
+                                  { x: 0, y: side * boltCircle.radius },
+                                ]}
+                                stroke="#4B5563"
+                                strokeDasharray="2 2"
+                              />
+                            ))}
+                        </>
+                      )}
+
+                      {/* Fitted Bézier curve and its anchors */}
+                      {showFit && (
+                        <>
+                          <Line
+                            data={bezierChartData}
+                            type="linear"
+                            dataKey="y"
+                            stroke="#DC2626"
+                            strokeWidth={1.5}
+                            strokeDasharray="6 3"
+                            dot={false}
+                            tooltipType="none"
+                            isAnimationActive={false}
+                          />
+                          <Line
+                            data={bezierAnchors}
+                            type="linear"
+                            dataKey="y"
+                            stroke="none"
+                            dot={{ r: 3, fill: "#DC2626", stroke: "none" }}
+                            activeDot={false}
+                            tooltipType="none"
+                            isAnimationActive={false}
+                          />
+                        </>
+                      )}
+
+                      {/* Kept designs, both halves */}
+                      {visibleDesigns.map((design) => (
+                        <Fragment key={design.id}>
+                          <Line
+                            data={design.chartData}
+                            type="linear"
+                            dataKey="y"
+                            stroke={design.color}
+                            strokeWidth={2}
+                            dot={false}
+                            tooltipType="none"
+                            isAnimationActive={false}
+                          />
+                          <Line
+                            data={design.chartData}
+                            type="linear"
+                            dataKey="negY"
+                            stroke={design.color}
+                            strokeWidth={2}
+                            strokeOpacity={0.3}
+                            dot={false}
+                            tooltipType="none"
+                            isAnimationActive={false}
+                          />
+                        </Fragment>
+                      ))}
+
+                      {/* Imported profile, both halves */}
+                      {imported && (
+                        <>
+                          <Line
+                            data={importedChartData}
+                            type="linear"
+                            dataKey="y"
+                            stroke="#059669"
+                            strokeWidth={2}
+                            dot={false}
+                            tooltipType="none"
+                            isAnimationActive={false}
+                          />
+                          <Line
+                            data={importedChartData}
+                            type="linear"
+                            dataKey="negY"
+                            stroke="#059669"
+                            strokeWidth={2}
+                            strokeOpacity={0.3}
+                            dot={false}
+                            tooltipType="none"
+                            isAnimationActive={false}
+                          />
+                        </>
+                      )}
+
+                      {/* Wavefront caps, the hovered one in bold */}
+                      {showWavefronts && (
+                        <>
+                          <Line
+                            data={wavefrontChartData}
+                            type="linear"
+                            dataKey="y"
+                            stroke="#0EA5E9"
+                            strokeWidth={1}
+                            strokeOpacity={0.6}
+                            dot={false}
+                            activeDot={false}
+                            tooltipType="none"
+                            isAnimationActive={false}
+                          />
+                          {hoverArc && (
+                            <Line
+                              data={hoverArc.arc}
+                              type="linear"
+                              dataKey="y"
+                              stroke="#0369A1"
+                              strokeWidth={2}
+                              dot={false}
+                              activeDot={false}
+                              tooltipType="none"
+                              isAnimationActive={false}
+                            />
+                          )}
+                        </>
+                      )}
+
                       {/* Center Line */}
                       <ReferenceLine
                         y={0}
@@ -606,6 +3186,17 @@ function App() {
                         strokeDasharray="3 3"
                       />
 
+                      {/* Point hovered here or in the analysis charts */}
+                      {hoverPoint && (
+                        <ReferenceDot
+                          x={hoverPoint.x}
+                          y={hoverPoint.y}
+                          r={5}
+                          fill="#2563EB"
+                          stroke="#fff"
+                        />
+                      )}
+
                       {/* Max Diameter visual guide */}
                       {isDiameterLocked && (
                         <>
@@ -623,16 +3214,195 @@ function App() {
                           />
                         </>
                       )}
+
+                      {/* Baffle cutout positions for the diameter lookup */}
+                      {cutoutHits.map((hit, index) => (
+                        <Fragment key={index}>
+                          <ReferenceLine
+                            x={hit.x}
+                            stroke="#C026D3"
+                            strokeDasharray="4 2"
+                          />
+                          {[1, -1].map((side) => (
+                            <ReferenceDot
+                              key={side}
+                              x={hit.x}
+                              y={(side * cutoutDiameter) / 2}
+                              r={4}
+                              fill="#C026D3"
+                              stroke="#fff"
+                            />
+                          ))}
+                        </Fragment>
+                      ))}
+
+                      {/* Diameter probe */}
+                      {probeX !== null && (
+                        <>
+                          <ReferenceLine
+                            x={probeX}
+                            stroke="#111827"
+                            strokeDasharray="4 2"
+                          />
+                          {[
+                            ...probeWidth.map((r) => ({ r, fill: "#2563EB" })),
+                            ...probeHeight.map((r) => ({ r, fill: "#EA580C" })),
+                          ].flatMap(({ r, fill }, index) =>
+                            [1, -1].map((side) => (
+                              <ReferenceDot
+                                key={`${index}-${side}`}
+                                x={probeX}
+                                y={side * r}
+                                r={4}
+                                fill={fill}
+                                stroke="#fff"
+                              />
+                            ))
+                          )}
+                        </>
+                      )}
+
+                      {/* Measurement */}
+                      {measurePoints.length === 2 && (
+                        <ReferenceLine
+                          segment={[measurePoints[0], measurePoints[1]]}
+                          stroke="#111827"
+                          strokeWidth={1.5}
+                        />
+                      )}
+                      {measurePoints.map((p, index) => (
+                        <ReferenceDot
+                          key={index}
+                          x={p.x}
+                          y={p.y}
+                          r={4}
+                          fill="#111827"
+                          stroke="#fff"
+                        />
+                      ))}
+
+                      {/* Zoom, pan and picking; drawn last to sit on top */}
+                      <ChartPointerLayer
+                        view={view}
+                        cursor={chartTool === "pan" ? "grab" : "crosshair"}
+                        onZoom={(center, factor) =>
+                          setZoomedView((v) =>
+                            zoomView(v ?? chartView, center, factor)
+                          )
+                        }
+                        onPan={(dx, dy) =>
+                          setZoomedView((v) => panView(v ?? chartView, dx, dy))
+                        }
+                        onPick={handleChartPick}
+                      />
                     </LineChart>
                   </ResponsiveContainer>
 
+                  {/* Tool readout */}
+                  {(chartTool !== "pan" || cutoutDiameter > 0) && (
+                    <div className="absolute top-2 left-24 text-xs text-gray-700 bg-white/80 px-2 py-1 rounded pointer-events-none font-mono space-y-0.5">
+                      {chartTool === "measure" && (
+                        <p>
+                          {measured
+                            ? `Distance ${Math.hypot(
+                                measured.dx,
+                                measured.dy
+                              ).toFixed(1)} mm (Δx ${measured.dx.toFixed(
+                                1
+                              )}, Δy ${measured.dy.toFixed(1)})`
+                            : measurePoints.length === 1
+                            ? "Click the second point"
+                            : "Click two points to measure"}
+                        </p>
+                      )}
+                      {chartTool === "probe" && (
+                        <p>
+                          {probeX === null
+                            ? "Click to probe the diameter"
+                            : `x = ${probeX.toFixed(1)} mm: ${
+                                probeWidth.length > 0
+                                  ? `Ø ${probeWidth
+                                      .map((r) => (2 * r).toFixed(1))
+                                      .join(" / ")} mm`
+                                  : "outside the wall"
+                              }${
+                                probeHeight.length > 0
+                                  ? `, height ${probeHeight
+                                      .map((r) => (2 * r).toFixed(1))
+                                      .join(" / ")} mm`
+                                  : ""
+                              }`}
+                        </p>
+                      )}
+                      {cutoutDiameter > 0 && (
+                        <p className="text-fuchsia-700">
+                          {cutoutHits.length > 0
+                            ? cutoutHits
+                                .map(
+                                  (hit) =>
+                                    `Ø ${cutoutDiameter} mm at x = ${hit.x.toFixed(
+                                      1
+                                    )} mm (${hit.angle.toFixed(1)}°)`
+                                )
+                                .join("; ")
+                            : `Ø ${cutoutDiameter} mm is not reached`}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Residual colour scale */}
+                  {showResidual && (
+                    <div className="absolute top-2 right-8 flex items-center gap-2 text-xs text-gray-600 bg-white/80 px-2 py-1 rounded pointer-events-none">
+                      <span>|residual|</span>
+                      <span style={{ color: residualColor(0) }}>
+                        ● &lt;0.1%
+                      </span>
+                      <span style={{ color: residualColor(0.01) }}>● 1%</span>
+                      <span style={{ color: residualColor(0.1) }}>● ≥10%</span>
+                    </div>
+                  )}
+
                   {/* Aspect Ratio Warning Overlay */}
                   <div className="absolute bottom-4 right-4 text-xs text-gray-500 pointer-events-none">
-                    * Graph scales pad automatically to maintain geometric
+                    * Scroll to zoom and drag to pan; the view keeps true
                     proportion
                   </div>
                 </div>
               </div>
+
+              <AnalysisCharts
+                points={points}
+                spiralData={spiralData}
+                hoverLength={hoverLength}
+                onHover={setHoverLength}
+              />
+
+              <DesignComparison
+                current={{ job, metrics: currentMetrics }}
+                designs={savedDesigns}
+                canAdd={!isComputing}
+                onAdd={handleKeepDesign}
+                onRename={(id, name) => updateDesign(id, { name })}
+                onToggle={(id) =>
+                  updateDesign(id, {
+                    visible: !savedDesigns.find((d) => d.id === id)?.visible,
+                  })
+                }
+                onPromote={handlePromoteDesign}
+                onRemove={(id) =>
+                  setSavedDesigns(savedDesigns.filter((d) => d.id !== id))
+                }
+              />
+
+              <ImpedanceChart
+                points={acousticPoints}
+                fc={resultJob.params.fc}
+              />
+
+              {slices && slices.parts.length > 0 && (
+                <CutListTable result={slices} />
+              )}
             </div>
 
             <div className="bg-blue-50 border border-blue-100 p-4 rounded-lg flex items-start gap-3">
@@ -655,8 +3425,47 @@ function App() {
 
           {/* Stats Column */}
           <div className="lg:col-span-4 space-y-6">
+            {/* Solve status while the worker is computing */}
+            {isComputing && (
+              <div className="bg-white p-4 rounded-xl border border-blue-200 shadow-sm">
+                <div className="flex items-center gap-2 text-sm text-blue-700">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Computing{stage ? `: ${stage}` : "..."}
+                </div>
+                <div className="mt-2 h-1.5 bg-blue-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-all duration-200"
+                    style={{ width: `${Math.round(progress * 100)}%` }}
+                  ></div>
+                </div>
+              </div>
+            )}
+
+            {/* The last solve failed; the figures below are from the previous one */}
+            {error && !isComputing && (
+              <div className="bg-white p-4 rounded-xl border border-red-200 shadow-sm">
+                <div className="flex items-start gap-2 text-sm text-red-600">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <div>
+                    <div className="font-medium">Solve failed: {error}</div>
+                    <div className="text-xs mt-1">
+                      Showing the last design that solved (
+                      {HORN_FAMILIES.find((f) => f.value === resultJob.family)
+                        ?.label ?? resultJob.family}
+                      , fc {resultJob.params.fc} Hz, T {resultJob.params.T}).
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Stats Cards */}
-            <div className="flex flex-col gap-6">
+            <div
+              className={`flex flex-col gap-6 transition-opacity duration-200 ${
+                isComputing ? "opacity-50" : ""
+              }`}
+            >
+              <DesignCheck issues={designIssues} />
               <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm relative overflow-hidden">
                 <div className="text-gray-500 text-sm mb-1">Physical Depth</div>
                 <div className="text-3xl font-bold text-gray-900 relative z-10">
@@ -674,13 +3483,17 @@ function App() {
                     : "border-gray-200"
                 }`}
               >
-                <div className="text-gray-500 text-sm mb-1">Mouth Diameter</div>
+                <div className="text-gray-500 text-sm mb-1">
+                  {isAxisymmetric ? "Mouth Diameter" : "Mouth Width × Height"}
+                </div>
                 <div
                   className={`text-3xl font-bold relative z-10 ${
                     diameterExceeded ? "text-red-600" : "text-gray-900"
                   }`}
                 >
-                  {dimensions.mouthDiameter.toFixed(1)}{" "}
+                  {dimensions.mouthDiameter.toFixed(1)}
+                  {!isAxisymmetric &&
+                    ` × ${dimensions.mouthHeight.toFixed(1)}`}{" "}
                   <span className="text-lg text-gray-500 font-normal">mm</span>
                 </div>
                 {diameterExceeded && (
@@ -689,6 +3502,26 @@ function App() {
                   </div>
                 )}
               </div>
+              <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+                <div className="text-gray-500 text-sm mb-1">
+                  Final Wall Angle
+                </div>
+                <div className="text-3xl font-bold text-gray-900">
+                  {finalAngle.toFixed(1)}
+                  <span className="text-lg text-gray-500 font-normal">°</span>
+                </div>
+                {family === "lecleach" && termination !== "angle" && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    Set by the stop{" "}
+                    {termination === "diameter"
+                      ? `diameter of ${stopDiameter} mm`
+                      : termination === "depth"
+                      ? `depth of ${stopDepth} mm`
+                      : `wall length of ${stopLength} mm`}
+                    , capped at {roundOver}°
+                  </div>
+                )}
+              </div>
               <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
                 <div className="text-gray-500 text-sm mb-1">
                   Resolution (Points)
@@ -701,6 +3534,15 @@ function App() {
           </div>
         </main>
       </div>
+
+      {isCsvDialogOpen && (
+        <CsvExportDialog
+          options={csvOptions}
+          onChange={setCsvOptions}
+          onDownload={handleDownload}
+          onClose={() => setIsCsvDialogOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,418 @@
+import { useMemo, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  ReferenceDot,
+  type MouseHandlerDataParam,
+} from "recharts";
+import { ChartLine } from "lucide-react";
+import type { Point } from "../lib/lecleach";
+import { chartDomains } from "../lib/hornModel";
+import { analyzeProfile, nearestByLength, turningCurve } from "../lib/analysis";
+
+type AnalysisTab = "area" | "angle" | "curvature" | "radius" | "radial";
+
+interface AnalysisChartsProps {
+  points: Point[]; // Full resolution profile
+  spiralData: Point[]; // Thinned profile for the radial view
+  hoverLength: number | null; // Path length hovered in any linked chart
+  onHover: (length: number | null) => void;
+}
+
+const TABS: { value: AnalysisTab; label: string }[] = [
+  { value: "area", label: "Area" },
+  { value: "angle", label: "Angle" },
+  { value: "curvature", label: "Curvature" },
+  { value: "radius", label: "Radius" },
+  { value: "radial", label: "Radial" },
+];
+
+const axisLabel = { fill: "#4B5563" };
+
+function AnalysisCharts({
+  points,
+  spiralData,
+  hoverLength,
+  onHover,
+}: AnalysisChartsProps) {
+  const [tab, setTab] = useState<AnalysisTab>("area");
+  const data = useMemo(() => analyzeProfile(points), [points]);
+  const turning = useMemo(() => turningCurve(spiralData), [spiralData]);
+  const rollbackStart = data.find((p) => p.regime === "spiral")?.length;
+  // The cap area runs away once the wall turns back, so the area axis
+  // follows the target and lets the cap leave the top
+  const areaDomain = useMemo(() => {
+    if (data.length === 0) return [1, 10];
+    const targets = data.map((p) => p.targetArea);
+    return [Math.min(...targets) * 0.8, Math.max(...targets) * 4];
+  }, [data]);
+
+  const turningView = useMemo(() => {
+    let minX = 0;
+    let maxX = 0;
+    let maxY = 0;
+    for (const p of turning) {
+      minX = Math.min(minX, p.px);
+      maxX = Math.max(maxX, p.px);
+      maxY = Math.max(maxY, Math.abs(p.py));
+    }
+    return chartDomains(minX, maxX, maxY);
+  }, [turning]);
+  const hoverTurning =
+    hoverLength === null ? undefined : nearestByLength(turning, hoverLength);
+
+  // Report the hovered point's path length to the other charts
+  const handleMove =
+    (items: { length: number }[]) => (state: MouseHandlerDataParam) => {
+      const item = items[Number(state.activeTooltipIndex)];
+      if (state.isTooltipActive && item) onHover(item.length);
+    };
+
+  const tooltip = (
+    <Tooltip
+      content={({ active, payload }) => {
+        if (active && payload && payload.length) {
+          const d = payload[0].payload;
+          return (
+            <div className="bg-white border border-gray-200 p-3 rounded shadow-lg text-sm">
+              <p className="text-gray-600 mb-1">
+                Length: {d.length.toFixed(1)} mm
+              </p>
+              {payload.map((entry) => (
+                <p
+                  key={String(entry.dataKey)}
+                  className="font-mono"
+                  style={{ color: entry.color }}
+                >
+                  {entry.name}: {Number(entry.value).toPrecision(4)}
+                </p>
+              ))}
+            </div>
+          );
+        }
+        return null;
+      }}
+    />
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex flex-col h-[450px]">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <ChartLine className="w-5 h-5 text-blue-600" />
+          <h2 className="text-xl font-semibold text-gray-900">Analysis</h2>
+        </div>
+        <div className="flex gap-1" role="tablist">
+          {TABS.map((t) => (
+            <button
+              key={t.value}
+              type="button"
+              role="tab"
+              aria-selected={tab === t.value}
+              onClick={() => setTab(t.value)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                tab === t.value
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 w-full min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          {tab === "radial" ? (
+            <LineChart
+              data={turning}
+              margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+              onMouseMove={handleMove(turning)}
+              onMouseLeave={() => onHover(null)}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="px"
+                type="number"
+                domain={turningView.xDomain}
+                allowDataOverflow={true}
+                tickFormatter={(v: number) => v.toFixed(0)}
+                label={{
+                  value: "Length × cos(angle) (mm)",
+                  position: "insideBottom",
+                  offset: -10,
+                  ...axisLabel,
+                }}
+                stroke="#9CA3AF"
+                tick={axisLabel}
+              />
+              <YAxis
+                domain={turningView.yDomain}
+                allowDataOverflow={true}
+                tickFormatter={(v: number) => v.toFixed(0)}
+                label={{
+                  value: "Length × sin(angle) (mm)",
+                  angle: -90,
+                  position: "insideLeft",
+                  ...axisLabel,
+                }}
+                stroke="#9CA3AF"
+                tick={axisLabel}
+              />
+              <Tooltip
+                content={({ active, payload }) => {
+                  if (active && payload && payload.length) {
+                    const d = payload[0].payload;
+                    return (
+                      <div className="bg-white border border-gray-200 p-3 rounded shadow-lg text-sm">
+                        <p className="text-gray-600 mb-1">
+                          Length: {d.length.toFixed(1)} mm
+                        </p>
+                        <p className="text-purple-600 font-mono">
+                          Angle: {d.angle.toFixed(1)}°
+                        </p>
+                      </div>
+                    );
+                  }
+                  return null;
+                }}
+              />
+              <Line
+                type="linear"
+                dataKey="py"
+                stroke="#2563EB"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+              <Line
+                type="linear"
+                dataKey="negPy"
+                stroke="#2563EB"
+                strokeWidth={2}
+                strokeOpacity={0.3}
+                dot={false}
+                tooltipType="none"
+                isAnimationActive={false}
+              />
+              <ReferenceLine y={0} stroke="#9CA3AF" strokeDasharray="3 3" />
+              {hoverTurning && (
+                <ReferenceDot
+                  x={hoverTurning.px}
+                  y={hoverTurning.py}
+                  r={5}
+                  fill="#2563EB"
+                  stroke="#fff"
+                />
+              )}
+            </LineChart>
+          ) : (
+            <LineChart
+              data={data}
+              margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+              onMouseMove={handleMove(data)}
+              onMouseLeave={() => onHover(null)}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="length"
+                type="number"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={(v: number) => v.toFixed(0)}
+                label={{
+                  value: "Path Length (mm)",
+                  position: "insideBottom",
+                  offset: -10,
+                  ...axisLabel,
+                }}
+                stroke="#9CA3AF"
+                tick={axisLabel}
+              />
+              {tab === "area" && (
+                <>
+                  <YAxis
+                    scale="log"
+                    domain={areaDomain}
+                    allowDataOverflow={true}
+                    tickFormatter={(v: number) => v.toPrecision(2)}
+                    label={{
+                      value: "Area (cm²)",
+                      angle: -90,
+                      position: "insideLeft",
+                      ...axisLabel,
+                    }}
+                    stroke="#9CA3AF"
+                    tick={axisLabel}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="targetArea"
+                    name="Target"
+                    stroke="#2563EB"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="capArea"
+                    name="Geometric cap"
+                    stroke="#EA580C"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="planeArea"
+                    name="Plane section"
+                    stroke="#9CA3AF"
+                    strokeWidth={1.5}
+                    strokeDasharray="5 3"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </>
+              )}
+              {tab === "angle" && (
+                <>
+                  <YAxis
+                    label={{
+                      value: "Wall Angle (°)",
+                      angle: -90,
+                      position: "insideLeft",
+                      ...axisLabel,
+                    }}
+                    stroke="#9CA3AF"
+                    tick={axisLabel}
+                  />
+                  <YAxis
+                    yAxisId="delta"
+                    orientation="right"
+                    tickFormatter={(v: number) => v.toPrecision(2)}
+                    stroke="#9CA3AF"
+                    tick={axisLabel}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="angle"
+                    name="Angle (°)"
+                    stroke="#7C3AED"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    yAxisId="delta"
+                    type="monotone"
+                    dataKey="deltaAngle"
+                    name="Δ angle per step (°)"
+                    stroke="#EA580C"
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </>
+              )}
+              {tab === "curvature" && (
+                <>
+                  <YAxis
+                    tickFormatter={(v: number) => v.toPrecision(2)}
+                    label={{
+                      value: "Curvature (1/m)",
+                      angle: -90,
+                      position: "insideLeft",
+                      ...axisLabel,
+                    }}
+                    stroke="#9CA3AF"
+                    tick={axisLabel}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="curvature"
+                    name="Curvature (1/m)"
+                    stroke="#0891B2"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </>
+              )}
+              {tab === "radius" && (
+                <>
+                  <YAxis
+                    label={{
+                      value: "Radius (mm)",
+                      angle: -90,
+                      position: "insideLeft",
+                      ...axisLabel,
+                    }}
+                    stroke="#9CA3AF"
+                    tick={axisLabel}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="y"
+                    name="Wall radius"
+                    stroke="#2563EB"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="equivalentRadius"
+                    name="Equivalent radius"
+                    stroke="#059669"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </>
+              )}
+              {tooltip}
+              {rollbackStart !== undefined && (
+                <ReferenceLine
+                  x={rollbackStart}
+                  stroke="#EAB308"
+                  strokeDasharray="4 4"
+                  label={{
+                    value: "Rollback",
+                    position: "insideTopRight",
+                    fill: "#A16207",
+                    fontSize: 12,
+                  }}
+                />
+              )}
+              {hoverLength !== null && (
+                <ReferenceLine x={hoverLength} stroke="#6B7280" />
+              )}
+            </LineChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500">
+        {tab === "area" &&
+          "Area the law asks for against the spherical cap the wall actually gives; the plane section is πr² at the wall."}
+        {tab === "angle" &&
+          "Δ angle is the change over one solver step, so it follows the step size as well as the wall."}
+        {tab === "curvature" &&
+          "Rate of turning of the wall per metre of path; its inverse is the local bend radius."}
+        {tab === "radius" &&
+          "Equivalent radius is that of a flat disc with the target area. The wall stays inside it because a curved cap holds more area than a flat disc of the same rim."}
+        {tab === "radial" &&
+          "Wall angle as direction and path length as distance: a constant-angle wall is a ray and the rollback winds out as a spiral."}
+      </p>
+    </div>
+  );
+}
+
+export default AnalysisCharts;
@@ -0,0 +1,127 @@
+import { useEffect, useRef, type PointerEvent } from "react";
+import { usePlotArea } from "recharts";
+import type { ChartView } from "../lib/chartTools";
+import type { Vec2 } from "../lib/shell";
+
+interface ChartPointerLayerProps {
+  view: ChartView;
+  cursor: string;
+  onZoom: (center: Vec2, factor: number) => void;
+  onPan: (dx: number, dy: number) => void;
+  onPick: (point: Vec2, mmPerPixel: number) => void; // Click without a drag
+}
+
+const ZOOM_STEP = 1.15; // Per wheel notch
+const CLICK_SLOP = 3; // Pixels of movement before a press becomes a drag
+
+interface Drag {
+  startX: number;
+  startY: number;
+  lastX: number;
+  lastY: number;
+  moved: boolean;
+}
+
+// Transparent rectangle over the plot area of a chart with numeric x and y
+// axes. Turns wheel, drag and click into data coordinates; the chart's own
+// hover tooltip still sees the events as they bubble up.
+function ChartPointerLayer({
+  view,
+  cursor,
+  onZoom,
+  onPan,
+  onPick,
+}: ChartPointerLayerProps) {
+  const plot = usePlotArea();
+  const ref = useRef<SVGRectElement>(null);
+  const drag = useRef<Drag | null>(null);
+  const spanX = view.xDomain[1] - view.xDomain[0];
+  const spanY = view.yDomain[1] - view.yDomain[0];
+
+  const toData = (clientX: number, clientY: number): Vec2 => {
+    const box = ref.current!.getBoundingClientRect();
+    return {
+      x: view.xDomain[0] + ((clientX - box.left) / box.width) * spanX,
+      y: view.yDomain[1] - ((clientY - box.top) / box.height) * spanY,
+    };
+  };
+
+  // React registers wheel listeners as passive, which can't stop the page
+  // from scrolling, so this one is added by hand
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const box = element.getBoundingClientRect();
+      onZoom(
+        {
+          x: view.xDomain[0] + ((e.clientX - box.left) / box.width) * spanX,
+          y: view.yDomain[1] - ((e.clientY - box.top) / box.height) * spanY,
+        },
+        e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP
+      );
+    };
+    element.addEventListener("wheel", handleWheel, { passive: false });
+    return () => element.removeEventListener("wheel", handleWheel);
+  }, [view, spanX, spanY, onZoom, plot]);
+
+  if (!plot) return null;
+
+  const handlePointerDown = (e: PointerEvent<SVGRectElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = {
+      startX: e.clientX,
+      startY: e.clientY,
+      lastX: e.clientX,
+      lastY: e.clientY,
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (e: PointerEvent<SVGRectElement>) => {
+    const d = drag.current;
+    if (!d) return;
+    if (
+      !d.moved &&
+      Math.hypot(e.clientX - d.startX, e.clientY - d.startY) < CLICK_SLOP
+    ) {
+      return;
+    }
+    d.moved = true;
+    const box = e.currentTarget.getBoundingClientRect();
+    onPan(
+      (-(e.clientX - d.lastX) / box.width) * spanX,
+      ((e.clientY - d.lastY) / box.height) * spanY
+    );
+    d.lastX = e.clientX;
+    d.lastY = e.clientY;
+  };
+
+  const handlePointerUp = (e: PointerEvent<SVGRectElement>) => {
+    const d = drag.current;
+    drag.current = null;
+    if (!d || d.moved) return;
+    const box = e.currentTarget.getBoundingClientRect();
+    onPick(toData(e.clientX, e.clientY), spanX / box.width);
+  };
+
+  return (
+    <rect
+      ref={ref}
+      x={plot.x}
+      y={plot.y}
+      width={plot.width}
+      height={plot.height}
+      fill="transparent"
+      style={{ cursor, touchAction: "none" }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => (drag.current = null)}
+    />
+  );
+}
+
+export default ChartPointerLayer;
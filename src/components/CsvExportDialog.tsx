@@ -0,0 +1,252 @@
+import { Download, X } from "lucide-react";
+import type {
+  CsvAxis,
+  CsvDelimiter,
+  CsvOptions,
+  CsvUnits,
+  ResampleMode,
+  ResampleWeighting,
+} from "../lib/csvExport";
+
+interface CsvExportDialogProps {
+  options: CsvOptions;
+  onChange: (options: CsvOptions) => void;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+const selectClass =
+  "bg-white border border-gray-300 rounded-lg px-2 text-sm text-gray-900 focus:outline-none focus:border-blue-500";
+const inputClass =
+  "w-20 bg-white border border-gray-300 rounded-lg px-2 text-center text-gray-900 font-mono focus:border-blue-500 outline-none";
+
+function CsvExportDialog({
+  options,
+  onChange,
+  onDownload,
+  onClose,
+}: CsvExportDialogProps) {
+  const update = (changes: Partial<CsvOptions>) =>
+    onChange({ ...options, ...changes });
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="csv-dialog-title"
+        className="bg-white rounded-xl shadow-lg border border-gray-200 w-full max-w-md p-6 space-y-4"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") onClose();
+        }}
+      >
+        <div className="flex items-center justify-between">
+          <h2
+            id="csv-dialog-title"
+            className="text-lg font-semibold text-gray-900"
+          >
+            CSV Export Options
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="csv-units" className="text-sm text-gray-600">
+              Units
+            </label>
+            <select
+              id="csv-units"
+              value={options.units}
+              onChange={(e) => update({ units: e.target.value as CsvUnits })}
+              className={selectClass}
+            >
+              <option value="mm">Millimetres</option>
+              <option value="cm">Centimetres</option>
+              <option value="m">Metres</option>
+              <option value="in">Inches</option>
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="csv-axis" className="text-sm text-gray-600">
+              Horn Axis
+            </label>
+            <select
+              id="csv-axis"
+              value={options.axis}
+              onChange={(e) => update({ axis: e.target.value as CsvAxis })}
+              className={selectClass}
+            >
+              <option value="x">X (radius on Y)</option>
+              <option value="y">Y (radius on Z)</option>
+              <option value="z">Z (radius on X)</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={options.mirror}
+              onChange={(e) => update({ mirror: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Add mirrored half (negative radius)
+          </label>
+          <div className="flex items-center justify-between gap-3">
+            <label htmlFor="csv-delimiter" className="text-sm text-gray-600">
+              Delimiter
+            </label>
+            <select
+              id="csv-delimiter"
+              value={options.delimiter}
+              onChange={(e) =>
+                update({ delimiter: e.target.value as CsvDelimiter })
+              }
+              className={selectClass}
+            >
+              <option value=",">Comma</option>
+              <option value=";">Semicolon</option>
+              <option value={"\t"}>Tab</option>
+              <option value=" ">Space</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={options.header}
+              onChange={(e) => update({ header: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Column header
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={options.notes}
+              onChange={(e) => update({ notes: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Rollback note (comment line above the data)
+          </label>
+          {options.notes && (
+            <p className="text-xs text-gray-500">
+              Only written when the wall rolls back. Some CAD importers reject
+              comment lines.
+            </p>
+          )}
+
+          <div className="border-t border-gray-200 pt-3 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <label htmlFor="csv-resample" className="text-sm text-gray-600">
+                Points
+              </label>
+              <select
+                id="csv-resample"
+                value={options.resample}
+                onChange={(e) =>
+                  update({ resample: e.target.value as ResampleMode })
+                }
+                className={selectClass}
+              >
+                <option value="none">Every solver point</option>
+                <option value="count">Resample to N points</option>
+                <option value="spacing">Resample by spacing</option>
+              </select>
+            </div>
+            {options.resample === "count" && (
+              <div className="flex items-center justify-between gap-3">
+                <label htmlFor="csv-count" className="text-sm text-gray-600">
+                  Points per Wall
+                </label>
+                <input
+                  id="csv-count"
+                  type="number"
+                  min="2"
+                  step="1"
+                  value={options.count}
+                  onChange={(e) => update({ count: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            {options.resample === "spacing" && (
+              <div className="flex items-center justify-between gap-3">
+                <label htmlFor="csv-spacing" className="text-sm text-gray-600">
+                  Spacing (mm)
+                </label>
+                <input
+                  id="csv-spacing"
+                  type="number"
+                  min="0.1"
+                  step="0.5"
+                  value={options.spacing}
+                  onChange={(e) => update({ spacing: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            {options.resample !== "none" && (
+              <div className="flex items-center justify-between gap-3">
+                <label
+                  htmlFor="csv-weighting"
+                  className="text-sm text-gray-600"
+                >
+                  Distribution
+                </label>
+                <select
+                  id="csv-weighting"
+                  value={options.weighting}
+                  onChange={(e) =>
+                    update({ weighting: e.target.value as ResampleWeighting })
+                  }
+                  className={selectClass}
+                >
+                  <option value="uniform">Uniform in path length</option>
+                  <option value="curvature">Curvature-weighted</option>
+                </select>
+              </div>
+            )}
+            {options.resample !== "none" &&
+              options.weighting === "curvature" && (
+                <p className="text-xs text-gray-500">
+                  Points crowd into the rollback; a set spacing becomes the
+                  average spacing.
+                </p>
+              )}
+          </div>
+        </div>
+
+        <div className="flex gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex-1 font-semibold py-2 px-4 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onDownload}
+            autoFocus
+            className="flex-1 flex items-center justify-center gap-2 font-semibold py-2 px-4 rounded-lg transition-colors bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Download className="w-4 h-4" />
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CsvExportDialog;
@@ -0,0 +1,91 @@
+import { Layers } from "lucide-react";
+import type { SliceResult } from "../lib/slicer";
+
+interface CutListTableProps {
+  result: SliceResult;
+}
+
+function CutListTable({ result }: CutListTableProps) {
+  const bevel = result.options.cutStyle === "bevel";
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-3">
+          <Layers className="w-5 h-5 text-blue-600" />
+          <h2 className="text-xl font-semibold text-gray-900">Cut List</h2>
+        </div>
+        <span className="text-sm text-gray-600">
+          {result.layers} × {result.options.sheetThickness} mm sheets,{" "}
+          {result.parts.length} ring{result.parts.length === 1 ? "" : "s"}
+        </span>
+      </div>
+      <div className="max-h-80 overflow-y-auto">
+        <table className="w-full text-sm text-right font-mono">
+          <thead className="sticky top-0 bg-white text-xs text-gray-500 font-sans">
+            <tr className="border-b border-gray-200">
+              <th className="py-2 text-left">Layer</th>
+              <th className="py-2 text-left">Part</th>
+              <th className="py-2">Z (mm)</th>
+              {bevel ? (
+                <>
+                  <th className="py-2">Inner Ø front / back</th>
+                  <th className="py-2">Outer Ø front / back</th>
+                  <th className="py-2">Bevel</th>
+                </>
+              ) : (
+                <>
+                  <th className="py-2">Inner Ø</th>
+                  <th className="py-2">Outer Ø</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody className="text-gray-900">
+            {result.parts.map((p) => (
+              <tr
+                key={`${p.layer}-${p.part}`}
+                className="border-b border-gray-100"
+              >
+                <td className="py-1 text-left">{p.layer}</td>
+                <td className="py-1 text-left font-sans">{p.part}</td>
+                <td className="py-1">
+                  {p.zFrom.toFixed(1)}–{p.zTo.toFixed(1)}
+                </td>
+                {bevel ? (
+                  <>
+                    <td className="py-1">
+                      {p.inner.frontDiameter.toFixed(1)} /{" "}
+                      {p.inner.backDiameter.toFixed(1)}
+                    </td>
+                    <td className="py-1">
+                      {p.outer.frontDiameter.toFixed(1)} /{" "}
+                      {p.outer.backDiameter.toFixed(1)}
+                    </td>
+                    <td className="py-1">
+                      {Math.max(p.inner.bevelAngle, p.outer.bevelAngle).toFixed(
+                        1
+                      )}
+                      °
+                    </td>
+                  </>
+                ) : (
+                  <>
+                    <td className="py-1">{p.inner.diameter.toFixed(1)}</td>
+                    <td className="py-1">{p.outer.diameter.toFixed(1)}</td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        Layer 1 sits at the throat. Stepped rings leave material on the air side
+        to sand back to the profile.
+      </p>
+    </div>
+  );
+}
+
+export default CutListTable;
@@ -0,0 +1,71 @@
+import {
+  AlertTriangle,
+  CircleCheck,
+  CircleX,
+  Lightbulb,
+  ShieldCheck,
+} from "lucide-react";
+import type { DesignIssue } from "../lib/designRules";
+
+interface DesignCheckProps {
+  issues: DesignIssue[];
+}
+
+function DesignCheck({ issues }: DesignCheckProps) {
+  const errors = issues.filter((i) => i.severity === "error").length;
+  const warnings = issues.length - errors;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-blue-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Design Check</h2>
+        </div>
+        {issues.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {errors > 0 && `${errors} error${errors === 1 ? "" : "s"}`}
+            {errors > 0 && warnings > 0 && ", "}
+            {warnings > 0 && `${warnings} warning${warnings === 1 ? "" : "s"}`}
+          </span>
+        )}
+      </div>
+
+      {issues.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <CircleCheck className="w-4 h-4 shrink-0" />
+          No problems found.
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {issues.map((issue, index) => {
+            const isError = issue.severity === "error";
+            const Icon = isError ? CircleX : AlertTriangle;
+            return (
+              <li
+                key={`${issue.rule}-${index}`}
+                className={`text-xs p-3 rounded border ${
+                  isError
+                    ? "text-red-700 bg-red-50 border-red-200"
+                    : "text-amber-800 bg-amber-50 border-amber-200"
+                }`}
+              >
+                <div className="flex items-start gap-2 font-semibold">
+                  <Icon className="w-4 h-4 shrink-0" />
+                  {issue.title}
+                </div>
+                <p className="mt-1 ml-6 text-gray-700">{issue.detail}</p>
+                <p className="mt-1 ml-6 flex items-start gap-1 text-gray-900">
+                  <Lightbulb className="w-3.5 h-3.5 shrink-0 mt-px text-gray-500" />
+                  {issue.fix}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default DesignCheck;
@@ -0,0 +1,240 @@
+import { ArrowUpToLine, Columns2, Plus, Trash2 } from "lucide-react";
+import type { DesignMetrics, SavedDesign } from "../lib/comparison";
+import type { HornJob } from "../lib/hornModel";
+
+interface ComparedDesign {
+  job: HornJob;
+  metrics: DesignMetrics;
+}
+
+interface DesignComparisonProps {
+  current: ComparedDesign;
+  designs: SavedDesign[];
+  canAdd: boolean; // False while the active design is still being solved
+  onAdd: () => void;
+  onRename: (id: number, name: string) => void;
+  onToggle: (id: number) => void;
+  onPromote: (id: number) => void;
+  onRemove: (id: number) => void;
+}
+
+interface MetricRow {
+  label: string;
+  value: (design: ComparedDesign) => number | string | null;
+  digits?: number; // Numbers are shown with a difference to the active design
+}
+
+const ROWS: MetricRow[] = [
+  { label: "Family", value: ({ job }) => job.family },
+  { label: "Cutoff (Hz)", value: ({ job }) => job.params.fc, digits: 0 },
+  { label: "T", value: ({ job }) => job.params.T, digits: 2 },
+  { label: "Throat Ø (mm)", value: ({ job }) => job.params.d0, digits: 1 },
+  {
+    label: "Rollback",
+    value: ({ job }) =>
+      job.family === "lecleach"
+        ? `${job.params.rollbackMode ?? "spiral"} to ${job.params.roundOver}°`
+        : null,
+  },
+  {
+    label: "Stops At",
+    value: ({ job }) => {
+      if (job.family !== "lecleach") return null;
+      switch (job.params.termination ?? "angle") {
+        case "diameter":
+          return `Ø ${job.params.stopDiameter} mm`;
+        case "depth":
+          return `depth ${job.params.stopDepth} mm`;
+        case "length":
+          return `wall ${job.params.stopLength} mm`;
+        default:
+          return `${job.params.roundOver}°`;
+      }
+    },
+  },
+  { label: "Depth (mm)", value: ({ metrics }) => metrics.depth, digits: 1 },
+  {
+    label: "Mouth Ø (mm)",
+    value: ({ metrics }) => metrics.mouthDiameter,
+    digits: 1,
+  },
+  {
+    label: "Mouth Height (mm)",
+    value: ({ job, metrics }) =>
+      (job.params.crossSection ?? "round") === "round"
+        ? null
+        : metrics.mouthHeight,
+    digits: 1,
+  },
+  {
+    label: "Mouth ka at fc",
+    value: ({ metrics }) => metrics.mouthKa,
+    digits: 2,
+  },
+  {
+    label: "Wall Length (mm)",
+    value: ({ metrics }) => metrics.pathLength,
+    digits: 1,
+  },
+  {
+    label: "Final Angle (°)",
+    value: ({ metrics }) => metrics.finalAngle,
+    digits: 1,
+  },
+  {
+    label: "Rollback From (mm)",
+    value: ({ metrics }) => metrics.rollbackStart,
+    digits: 1,
+  },
+  {
+    label: "Points",
+    value: ({ metrics }) => metrics.pointCount,
+    digits: 0,
+  },
+];
+
+function formatValue(value: number | string | null, digits = 0): string {
+  if (value === null) return "—";
+  return typeof value === "number" ? value.toFixed(digits) : value;
+}
+
+function DesignComparison({
+  current,
+  designs,
+  canAdd,
+  onAdd,
+  onRename,
+  onToggle,
+  onPromote,
+  onRemove,
+}: DesignComparisonProps) {
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-3">
+          <Columns2 className="w-5 h-5 text-blue-600" />
+          <h2 className="text-xl font-semibold text-gray-900">
+            Design Comparison
+          </h2>
+        </div>
+        <button
+          type="button"
+          onClick={onAdd}
+          disabled={!canAdd}
+          className="flex items-center gap-2 text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 shadow-sm disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          <Plus className="w-4 h-4" />
+          Keep Current Design
+        </button>
+      </div>
+
+      {designs.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Keep the current design to compare it with later changes. Kept designs
+          are drawn on the profile chart and listed here next to the active one.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-right font-mono">
+            <thead className="text-xs text-gray-500 font-sans">
+              <tr className="border-b border-gray-200 align-bottom">
+                <th className="py-2 text-left font-normal"></th>
+                <th className="py-2 px-2 font-normal">
+                  <span className="inline-flex items-center gap-1.5 text-gray-700">
+                    <span className="w-3 h-3 bg-blue-500 rounded-full"></span>
+                    Active
+                  </span>
+                </th>
+                {designs.map((design) => (
+                  <th key={design.id} className="py-2 px-2 font-normal">
+                    <div className="flex items-center justify-end gap-1.5">
+                      <input
+                        type="checkbox"
+                        checked={design.visible}
+                        onChange={() => onToggle(design.id)}
+                        style={{ accentColor: design.color }}
+                        aria-label={`Show ${design.name} on the chart`}
+                        title="Show on chart"
+                      />
+                      <input
+                        type="text"
+                        value={design.name}
+                        onChange={(e) => onRename(design.id, e.target.value)}
+                        aria-label="Design name"
+                        className="w-36 bg-white border border-gray-300 rounded px-1.5 py-0.5 text-xs text-gray-900 focus:outline-none focus:border-blue-500"
+                        style={{ borderLeft: `4px solid ${design.color}` }}
+                      />
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-gray-900">
+              {ROWS.map((row) => {
+                const active = row.value(current);
+                return (
+                  <tr key={row.label} className="border-b border-gray-100">
+                    <td className="py-1 text-left font-sans text-gray-600">
+                      {row.label}
+                    </td>
+                    <td className="py-1 px-2">
+                      {formatValue(active, row.digits)}
+                    </td>
+                    {designs.map((design) => {
+                      const value = row.value(design);
+                      const delta =
+                        typeof value === "number" && typeof active === "number"
+                          ? value - active
+                          : 0;
+                      const shown = delta.toFixed(row.digits ?? 0);
+                      return (
+                        <td key={design.id} className="py-1 px-2">
+                          {formatValue(value, row.digits)}
+                          {Number(shown) !== 0 && (
+                            <span className="ml-1 text-xs text-gray-400">
+                              ({delta > 0 ? "+" : ""}
+                              {shown})
+                            </span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+              <tr>
+                <td></td>
+                <td></td>
+                {designs.map((design) => (
+                  <td key={design.id} className="pt-2 px-2">
+                    <div className="flex justify-end gap-1 font-sans">
+                      <button
+                        type="button"
+                        onClick={() => onPromote(design.id)}
+                        className="flex items-center gap-1 text-xs font-semibold py-1 px-2 rounded border border-gray-300 bg-white hover:bg-gray-50 text-gray-700"
+                        title="Load this design's parameters"
+                      >
+                        <ArrowUpToLine className="w-3.5 h-3.5" />
+                        Make Active
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onRemove(design.id)}
+                        className="p-1 rounded text-gray-400 hover:text-red-600"
+                        aria-label={`Remove ${design.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DesignComparison;
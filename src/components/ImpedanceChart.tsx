@@ -0,0 +1,160 @@
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { Waves } from "lucide-react";
+import type { Point } from "../lib/lecleach";
+import { computeThroatImpedance } from "../lib/impedance";
+
+interface ImpedanceChartProps {
+  points: Point[]; // Full resolution profile (area law via Point.radius)
+  fc: number; // Cutoff frequency to mark on the chart
+}
+
+function ImpedanceChart({ points, fc }: ImpedanceChartProps) {
+  const data = useMemo(() => computeThroatImpedance(points), [points]);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200 flex flex-col h-[400px]">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-3">
+          <Waves className="w-5 h-5 text-blue-600" />
+          <h2 className="text-xl font-semibold text-gray-900">
+            Throat Impedance
+          </h2>
+        </div>
+        <div className="flex gap-4 text-sm">
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
+            <span className="text-gray-600">Re(Z)</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 bg-orange-500 rounded-full"></div>
+            <span className="text-gray-600">Im(Z)</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 border border-gray-400 rounded-full"></div>
+            <span className="text-gray-500 text-xs">
+              |U mouth / U throat| (dB)
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 w-full min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis
+              dataKey="frequency"
+              type="number"
+              scale="log"
+              domain={["dataMin", "dataMax"]}
+              ticks={[20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]}
+              tickFormatter={(f: number) =>
+                f >= 1000 ? `${f / 1000}k` : `${f}`
+              }
+              label={{
+                value: "Frequency (Hz)",
+                position: "insideBottom",
+                offset: -10,
+                fill: "#4B5563",
+              }}
+              stroke="#9CA3AF"
+              tick={{ fill: "#4B5563" }}
+            />
+            <YAxis
+              yAxisId="z"
+              label={{
+                value: "Z / (ρc/S0)",
+                angle: -90,
+                position: "insideLeft",
+                fill: "#4B5563",
+              }}
+              stroke="#9CA3AF"
+              tick={{ fill: "#4B5563" }}
+            />
+            <YAxis
+              yAxisId="db"
+              orientation="right"
+              stroke="#9CA3AF"
+              tick={{ fill: "#4B5563" }}
+            />
+            <Tooltip
+              content={({ active, payload }) => {
+                if (active && payload && payload.length) {
+                  const d = payload[0].payload;
+                  return (
+                    <div className="bg-white border border-gray-200 p-3 rounded shadow-lg text-sm">
+                      <p className="text-gray-600 mb-1">
+                        {d.frequency.toFixed(0)} Hz
+                      </p>
+                      <p className="text-blue-600 font-mono">
+                        Re: {d.resistance.toFixed(3)}
+                      </p>
+                      <p className="text-orange-600 font-mono">
+                        Im: {d.reactance.toFixed(3)}
+                      </p>
+                      <p className="text-gray-500 font-mono text-xs">
+                        Transfer: {d.transfer.toFixed(1)} dB
+                      </p>
+                    </div>
+                  );
+                }
+                return null;
+              }}
+            />
+            <Line
+              yAxisId="z"
+              type="monotone"
+              dataKey="resistance"
+              stroke="#2563EB"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              yAxisId="z"
+              type="monotone"
+              dataKey="reactance"
+              stroke="#F97316"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              yAxisId="db"
+              type="monotone"
+              dataKey="transfer"
+              stroke="#9CA3AF"
+              strokeWidth={1}
+              strokeDasharray="4 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+            {/* Cutoff marker */}
+            <ReferenceLine
+              yAxisId="z"
+              x={fc}
+              stroke="#9333EA"
+              strokeDasharray="5 5"
+              label={{ value: "fc", position: "top", fill: "#9333EA" }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export default ImpedanceChart;
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { LeCleachParams } from "../lib/lecleach";
+import {
+  solveForConstraints,
+  type FitConstraints,
+  type FitOptions,
+  type FitResult,
+} from "../lib/solver";
+import type {
+  FitWorkerRequest,
+  FitWorkerResponse,
+} from "../workers/fitProtocol";
+
+export interface ConstraintSolverState {
+  fitResult: FitResult | null; // Result of the last finished search
+  isSolving: boolean; // A search is running
+  error: string | null; // Error message of the last failed search
+  solve: (
+    base: LeCleachParams,
+    constraints: FitConstraints,
+    options: FitOptions
+  ) => void;
+  clear: () => void; // Cancel a running search and drop the result
+}
+
+function createWorker(): Worker {
+  return new Worker(new URL("../workers/fit.worker.ts", import.meta.url), {
+    type: "module",
+  });
+}
+
+// Runs the constraint search in a Web Worker. Starting a new search while one
+// is running terminates the busy worker, the same way useHornSolver cancels
+// stale jobs.
+export function useConstraintSolver(): ConstraintSolverState {
+  const [fitResult, setFitResult] = useState<FitResult | null>(null);
+  const [isSolving, setIsSolving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const runningRef = useRef(false);
+  const nextIdRef = useRef(0);
+
+  const cancel = useCallback(() => {
+    nextIdRef.current++; // Ignore anything the old search still sends
+    if (runningRef.current && workerRef.current) {
+      workerRef.current.terminate();
+      workerRef.current = null;
+    }
+    runningRef.current = false;
+  }, []);
+
+  // Terminate the worker on unmount
+  useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      runningRef.current = false;
+    },
+    []
+  );
+
+  const solve = useCallback(
+    (
+      base: LeCleachParams,
+      constraints: FitConstraints,
+      options: FitOptions
+    ) => {
+      cancel();
+      if (!workerRef.current) workerRef.current = createWorker();
+
+      const worker = workerRef.current;
+      const id = ++nextIdRef.current;
+      runningRef.current = true;
+      setIsSolving(true);
+      setFitResult(null);
+      setError(null);
+
+      worker.onmessage = (event: MessageEvent<FitWorkerResponse>) => {
+        const message = event.data;
+        if (message.id !== id) return; // Response for a cancelled search
+
+        runningRef.current = false;
+        setIsSolving(false);
+        if (message.type === "result") {
+          setFitResult(message.result);
+        } else {
+          setError(message.message);
+        }
+      };
+
+      // If the worker cannot start (e.g. unsupported environment), fall back
+      // to searching on the main thread.
+      worker.onerror = () => {
+        if (nextIdRef.current !== id) return;
+        runningRef.current = false;
+        workerRef.current?.terminate();
+        workerRef.current = null;
+        setFitResult(solveForConstraints(base, constraints, options));
+        setIsSolving(false);
+      };
+
+      const request: FitWorkerRequest = {
+        type: "fit",
+        id,
+        base,
+        constraints,
+        options,
+      };
+      worker.postMessage(request);
+    },
+    [cancel]
+  );
+
+  const clear = useCallback(() => {
+    cancel();
+    setIsSolving(false);
+    setFitResult(null);
+    setError(null);
+  }, [cancel]);
+
+  return { fitResult, isSolving, error, solve, clear };
+}
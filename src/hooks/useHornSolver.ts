@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from "react";
+import { computeHorn, type HornJob, type HornResult } from "../lib/hornModel";
+import type {
+  HornWorkerRequest,
+  HornWorkerResponse,
+} from "../workers/hornProtocol";
+
+export interface HornSolverState {
+  result: HornResult; // Latest completed result (may belong to a stale job)
+  resultJob: HornJob; // The job that produced `result`
+  isComputing: boolean; // A job for the current parameters is still running
+  stage: string | null; // Current stage of the running job
+  progress: number; // 0..1 progress of the running job
+  error: string | null; // Error message of the last failed job
+}
+
+function createWorker(): Worker {
+  return new Worker(new URL("../workers/horn.worker.ts", import.meta.url), {
+    type: "module",
+  });
+}
+
+// Runs horn jobs in a Web Worker. The initial job is solved synchronously so
+// the first render has data; every later job is posted to the worker. When a
+// new job arrives while the previous one is still running, the busy worker is
+// terminated (cancelling the stale solve) and a fresh one is started.
+// `job` must be memoized: a new object identity means a new job.
+export function useHornSolver(job: HornJob): HornSolverState {
+  const [completed, setCompleted] = useState(() => ({
+    job,
+    result: computeHorn(job),
+    resultJob: job,
+    error: null as string | null,
+  }));
+  const [status, setStatus] = useState<{
+    job: HornJob;
+    stage: string;
+    progress: number;
+  } | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const runningRef = useRef(false);
+  const nextIdRef = useRef(0);
+
+  // Terminate the worker on unmount
+  useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      runningRef.current = false;
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (completed.job === job) return;
+
+    // Cancel a stale job by discarding its worker
+    if (runningRef.current && workerRef.current) {
+      workerRef.current.terminate();
+      workerRef.current = null;
+    }
+    if (!workerRef.current) workerRef.current = createWorker();
+
+    const worker = workerRef.current;
+    const id = ++nextIdRef.current;
+    runningRef.current = true;
+
+    worker.onmessage = (event: MessageEvent<HornWorkerResponse>) => {
+      const message = event.data;
+      if (message.id !== id) return; // Response for a stale job
+
+      if (message.type === "progress") {
+        setStatus({ job, stage: message.stage, progress: message.progress });
+        return;
+      }
+
+      runningRef.current = false;
+      if (message.type === "result") {
+        setCompleted({
+          job,
+          result: message.result,
+          resultJob: job,
+          error: null,
+        });
+      } else {
+        setCompleted((prev) => ({ ...prev, job, error: message.message }));
+      }
+    };
+
+    // If the worker cannot start (e.g. unsupported environment), fall back
+    // to solving on the main thread.
+    worker.onerror = () => {
+      if (nextIdRef.current !== id) return;
+      runningRef.current = false;
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      setCompleted({
+        job,
+        result: computeHorn(job),
+        resultJob: job,
+        error: null,
+      });
+    };
+
+    const request: HornWorkerRequest = { type: "solve", id, job };
+    worker.postMessage(request);
+  }, [job, completed.job]);
+
+  const isComputing = completed.job !== job;
+  const current = isComputing && status?.job === job ? status : null;
+
+  return {
+    result: completed.result,
+    resultJob: completed.resultJob,
+    isComputing,
+    stage: current?.stage ?? null,
+    progress: current?.progress ?? 0,
+    error: completed.error,
+  };
+}
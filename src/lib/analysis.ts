@@ -0,0 +1,95 @@
+import type { Point, SolverRegime } from "./lecleach";
+
+// Per-point quantities for the analysis charts, all against path length
+export interface AnalysisPoint {
+  length: number; // Path length along the wall (mm)
+  x: number;
+  y: number; // Wall radius (mm)
+  angle: number; // Wall angle (degrees)
+  deltaAngle: number; // Angle change over the solver step (degrees)
+  targetArea: number; // Area the law asks for (cm^2)
+  capArea: number; // Wavefront cap area the geometry gives (cm^2)
+  planeArea: number; // Flat cross-section at the wall radius (cm^2)
+  curvature: number; // d(angle)/d(length) (1/m)
+  equivalentRadius: number; // Radius of a flat disc of the target area (mm)
+  regime: SolverRegime;
+}
+
+// Wall direction against path length in polar form: direction is the wall
+// angle and distance the path length, so a wall that keeps its angle is a ray
+// and the rollback winds outwards as a spiral
+export interface TurningPoint {
+  px: number;
+  py: number;
+  negPy: number;
+  length: number;
+  angle: number;
+}
+
+const MAX_CHART_POINTS = 600;
+
+// Even thinning that keeps the last point
+function thin<T>(items: T[], limit: number): T[] {
+  const step = Math.ceil(items.length / limit) || 1;
+  return items.filter(
+    (_, index) => index % step === 0 || index === items.length - 1
+  );
+}
+
+export function analyzeProfile(points: Point[]): AnalysisPoint[] {
+  const result = points.map((p, i) => {
+    // Central difference; one-sided at the ends
+    const a = points[Math.max(0, i - 1)];
+    const b = points[Math.min(points.length - 1, i + 1)];
+    const ds = b.length - a.length;
+    const curvature =
+      ds > 0 ? (((b.angle - a.angle) / ds) * Math.PI * 1000) / 180 : 0;
+    return {
+      length: p.length,
+      x: p.x,
+      y: p.y,
+      angle: p.angle,
+      deltaAngle: p.deltaAngle,
+      targetArea: p.targetArea / 100,
+      capArea: p.capArea / 100,
+      planeArea: (Math.PI * p.y * p.y) / 100,
+      curvature,
+      equivalentRadius: p.radius,
+      regime: p.regime,
+    };
+  });
+  return thin(result, MAX_CHART_POINTS);
+}
+
+export function turningCurve(points: Point[]): TurningPoint[] {
+  return points.map((p) => {
+    const theta = (p.angle * Math.PI) / 180;
+    const py = p.length * Math.sin(theta);
+    return {
+      px: p.length * Math.cos(theta),
+      py,
+      negPy: -py,
+      length: p.length,
+      angle: p.angle,
+    };
+  });
+}
+
+// Item whose path length is closest to `length`; lengths must be increasing
+export function nearestByLength<T extends { length: number }>(
+  items: T[],
+  length: number
+): T | undefined {
+  if (items.length === 0) return undefined;
+  let lo = 0;
+  let hi = items.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (items[mid].length <= length) lo = mid;
+    else hi = mid;
+  }
+  return Math.abs(items[hi].length - length) <
+    Math.abs(items[lo].length - length)
+    ? items[hi]
+    : items[lo];
+}
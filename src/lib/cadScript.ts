@@ -0,0 +1,260 @@
+import type { FamilyOptions, HornFamily } from "./families";
+import type { LeCleachParams, Point } from "./lecleach";
+import type { FlangeOptions } from "./shell";
+
+// Everything a CAD script needs to rebuild a round horn on its own: the
+// design inputs for the header, the solved profile, and the shell options.
+export interface CadScriptInput {
+  family: HornFamily;
+  params: LeCleachParams;
+  familyOptions: FamilyOptions;
+  profile: Point[];
+  wallThickness: number; // mm
+  flange: FlangeOptions | null;
+  segments?: number; // Facets per turn where the tool asks for it (default 180)
+}
+
+// Header lines describing the design, without comment markers
+function headerLines(input: CadScriptInput): string[] {
+  const { params, family } = input;
+  const lines = [
+    `${family} horn, generated by the Le Cleac'h Horn Visualizer`,
+    "",
+    `fc = ${params.fc} Hz, T = ${params.T}, d0 = ${params.d0} mm`,
+  ];
+  if (family === "lecleach") {
+    const mode = params.rollbackMode ?? "spiral";
+    lines.push(`roundOver = ${params.roundOver} deg, rollback = ${mode}`);
+    if (mode === "spiral") {
+      lines.push(`spiralGrowth = ${params.spiralGrowth ?? 1.0025}`);
+    } else if (mode === "clothoid") {
+      lines.push(`clothoidRate = ${params.clothoidRate ?? 0.005}`);
+    } else if (mode === "circular") {
+      lines.push(`lipRadius = ${params.lipRadius ?? 0}`);
+    }
+    const termination = params.termination ?? "angle";
+    if (termination === "diameter") {
+      lines.push(`stopped at mouth diameter ${params.stopDiameter} mm`);
+    } else if (termination === "depth") {
+      lines.push(`stopped at depth ${params.stopDepth} mm`);
+    } else if (termination === "length") {
+      lines.push(`stopped at wall length ${params.stopLength} mm`);
+    }
+  } else if (family === "conical") {
+    lines.push(`coneAngle = ${input.familyOptions.coneAngle} deg`);
+  } else if (family === "os") {
+    lines.push(`coverageAngle = ${input.familyOptions.coverageAngle} deg`);
+  }
+  lines.push(
+    "",
+    "The horn axis is +Z with the throat at z = 0. Profile rows are axial",
+    "position and radius in mm, and the wall angle in degrees. The wall is",
+    "grown from the profile on the side away from the air."
+  );
+  return lines;
+}
+
+const n = (value: number) => Number(value.toFixed(4)).toString();
+
+export function generateOpenSCAD(input: CadScriptInput): string {
+  const flange = input.flange;
+  const rows = input.profile
+    .map((p) => `  [${n(p.x)}, ${n(p.y)}, ${n(p.angle)}]`)
+    .join(",\n");
+
+  return `${headerLines(input)
+    .map((line) => `// ${line}`.trimEnd())
+    .join("\n")}
+
+wall = ${n(input.wallThickness)}; // Wall thickness (mm)
+
+flange = ${flange ? "true" : "false"};
+flange_od = ${n(flange?.outerDiameter ?? 0)}; // Outer diameter (mm)
+flange_t = ${n(flange?.thickness ?? 0)}; // Thickness behind the throat (mm)
+bolt_circle = ${n(flange?.boltCircleDiameter ?? 0)}; // mm
+holes = ${flange?.holeCount ?? 0};
+hole_d = ${n(flange?.holeDiameter ?? 0)}; // mm
+
+$fn = ${input.segments ?? 180};
+
+profile = [
+${rows}
+];
+
+// Profile point in the rotate_extrude plane: [radius, axial]
+function rz(p) = [p[1], p[0]];
+
+// Point pushed along the wall normal by the wall thickness
+function outer(p) = [max(0, p[1] + wall * cos(p[2])), p[0] - wall * sin(p[2])];
+
+// One quad per profile segment; neighbours share their end edges, so the
+// union is the wall section even where the offset folds inside a rollback
+module wall_section() {
+  for (i = [0 : len(profile) - 2]) {
+    a = profile[i];
+    b = profile[i + 1];
+    polygon([rz(a), rz(b), outer(b), outer(a)]);
+  }
+}
+
+module throat_flange() {
+  throat_d = 2 * profile[0][1];
+  translate([0, 0, -flange_t]) difference() {
+    cylinder(d = flange_od, h = flange_t);
+    translate([0, 0, -1]) cylinder(d = throat_d, h = flange_t + 2);
+    if (holes > 0)
+      for (k = [0 : holes - 1])
+        rotate(90 + k * 360 / holes)
+          translate([bolt_circle / 2, 0, -1])
+            cylinder(d = hole_d, h = flange_t + 2, $fn = 32);
+  }
+}
+
+assert(wall > 0, "Set a wall thickness above zero");
+rotate_extrude() wall_section();
+if (flange) throat_flange();
+`;
+}
+
+export function generateCadQuery(input: CadScriptInput): string {
+  const flange = input.flange;
+  const rows = input.profile
+    .map((p) => `    (${n(p.x)}, ${n(p.y)}, ${n(p.angle)}),`)
+    .join("\n");
+  const flangeBlock = flange
+    ? `{
+    "outer_diameter": ${n(flange.outerDiameter)},
+    "thickness": ${n(flange.thickness)},
+    "bolt_circle": ${n(flange.boltCircleDiameter)},
+    "holes": ${flange.holeCount},
+    "hole_diameter": ${n(flange.holeDiameter)},
+}`
+    : "None";
+
+  return `${headerLines(input)
+    .map((line) => `# ${line}`.trimEnd())
+    .join("\n")}
+#
+# Open in cq-editor, or run with Python and cadquery installed to write
+# horn.step and horn.stl next to the script.
+
+import math
+
+import cadquery as cq
+
+WALL = ${n(input.wallThickness)}  # Wall thickness (mm)
+
+FLANGE = ${flangeBlock}
+
+PROFILE = [
+${rows}
+]
+
+
+def intersect(p1, p2, p3, p4):
+    d1x, d1y = p2[0] - p1[0], p2[1] - p1[1]
+    d2x, d2y = p4[0] - p3[0], p4[1] - p3[1]
+    denom = d1x * d2y - d1y * d2x
+    if denom == 0:
+        return None
+    t = ((p3[0] - p1[0]) * d2y - (p3[1] - p1[1]) * d2x) / denom
+    u = ((p3[0] - p1[0]) * d1y - (p3[1] - p1[1]) * d1x) / denom
+    if t < 0 or t > 1 or u < 0 or u > 1:
+        return None
+    return (p1[0] + t * d1x, p1[1] + t * d1y)
+
+
+def offset_wall(profile, thickness):
+    """Outer wall surface, as in the web app: offset along the normal, drop
+    segments that run backwards, cut local loops, and stop where the offset
+    reaches the inner wall."""
+    wall = [(x, y) for x, y, _ in profile]
+    raw = [
+        (x - thickness * math.sin(math.radians(a)),
+         y + thickness * math.cos(math.radians(a)))
+        for x, y, a in profile
+    ]
+
+    kept = [raw[0]]
+    for i in range(1, len(raw)):
+        wx = wall[i][0] - wall[i - 1][0]
+        wy = wall[i][1] - wall[i - 1][1]
+        px, py = kept[-1]
+        if (raw[i][0] - px) * wx + (raw[i][1] - py) * wy > 0 or i == len(raw) - 1:
+            kept.append(raw[i])
+
+    window = 4 * math.pi * thickness
+    result = [kept[0]]
+    i = 0
+    while i < len(kept) - 1:
+        a, b = kept[i], kept[i + 1]
+        cut = None
+        travelled = math.dist(a, b)
+        j = i + 2
+        while j < len(kept) - 1 and travelled < window:
+            hit = intersect(a, b, kept[j], kept[j + 1])
+            if hit:
+                cut = (j, hit)
+            travelled += math.dist(kept[j], kept[j + 1])
+            j += 1
+        if cut:
+            result.append(cut[1])
+            kept[cut[0]] = cut[1]
+            i = cut[0]
+        else:
+            result.append(b)
+            i += 1
+
+    for k in range(len(result) - 1):
+        for j in range(len(wall) - 1):
+            hit = intersect(result[k], result[k + 1], wall[j], wall[j + 1])
+            if hit:
+                return result[: k + 1] + [hit]
+    return result
+
+
+def horn():
+    assert WALL > 0, "Set a wall thickness above zero"
+    inner = [(x, y) for x, y, _ in PROFILE]
+    outer = offset_wall(PROFILE, WALL)
+    # Section in the XZ workplane: local x is the radius, local y the axis
+    section = [(max(0.0, y), x) for x, y in inner + outer[::-1]]
+    section = [p for i, p in enumerate(section) if i == 0 or p != section[i - 1]]
+    body = (
+        cq.Workplane("XZ")
+        .polyline(section)
+        .close()
+        .revolve(360, (0, 0, 0), (0, 1, 0))
+    )
+
+    if FLANGE:
+        throat_d = 2 * PROFILE[0][1]
+        t = FLANGE["thickness"]
+        r = FLANGE["bolt_circle"] / 2
+        holes = [
+            (r * math.cos(math.pi / 2 + 2 * math.pi * k / FLANGE["holes"]),
+             r * math.sin(math.pi / 2 + 2 * math.pi * k / FLANGE["holes"]))
+            for k in range(FLANGE["holes"])
+        ]
+        flange = (
+            cq.Workplane("XY", origin=(0, 0, -t))
+            .circle(FLANGE["outer_diameter"] / 2)
+            .circle(throat_d / 2)
+            .pushPoints(holes)
+            .circle(FLANGE["hole_diameter"] / 2)
+            .extrude(t)
+        )
+        body = body.union(flange)
+
+    return body
+
+
+result = horn()
+
+if "show_object" in globals():
+    show_object(result)  # noqa: F821 (cq-editor)
+else:
+    cq.exporters.export(result, "horn.step")
+    cq.exporters.export(result, "horn.stl")
+`;
+}
@@ -0,0 +1,95 @@
+import type { Point } from "./lecleach";
+import type { Vec2 } from "./shell";
+
+// Visible data range of the profile chart
+export interface ChartView {
+  xDomain: number[];
+  yDomain: number[];
+}
+
+// Where the wall reaches a given diameter
+export interface DiameterHit {
+  x: number;
+  length: number; // Path length along the wall (mm)
+  angle: number; // Wall angle there (degrees)
+}
+
+const MIN_SPAN = 1; // mm across the narrower axis at full zoom
+
+// Scale both axes by the same factor about `center`, so a view at 1:1 stays
+// at 1:1. Factors below 1 zoom in.
+export function zoomView(
+  view: ChartView,
+  center: Vec2,
+  factor: number
+): ChartView {
+  const spanY = view.yDomain[1] - view.yDomain[0];
+  const spanX = view.xDomain[1] - view.xDomain[0];
+  const f = Math.max(factor, MIN_SPAN / Math.min(spanX, spanY));
+  return {
+    xDomain: view.xDomain.map((x) => center.x + (x - center.x) * f),
+    yDomain: view.yDomain.map((y) => center.y + (y - center.y) * f),
+  };
+}
+
+export function panView(view: ChartView, dx: number, dy: number): ChartView {
+  return {
+    xDomain: view.xDomain.map((x) => x + dx),
+    yDomain: view.yDomain.map((y) => y + dy),
+  };
+}
+
+// Radii where the wall crosses the axial position x, smallest first. A
+// rolled-back lip can cross the same x more than once.
+export function wallRadiiAtX(points: Vec2[], x: number): number[] {
+  const radii: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if ((a.x - x) * (b.x - x) > 0 || a.x === b.x) continue;
+    // Skip the shared end of two segments so a crossing counts once
+    if (b.x === x && i < points.length - 1) continue;
+    const t = (x - a.x) / (b.x - a.x);
+    radii.push(a.y + t * (b.y - a.y));
+  }
+  return radii.sort((r1, r2) => r1 - r2);
+}
+
+// Axial positions where the wall diameter equals `diameter`, throat first
+export function findDiameter(points: Point[], diameter: number): DiameterHit[] {
+  const radius = diameter / 2;
+  const hits: DiameterHit[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if ((a.y - radius) * (b.y - radius) > 0 || a.y === b.y) continue;
+    if (b.y === radius && i < points.length - 1) continue;
+    const t = (radius - a.y) / (b.y - a.y);
+    hits.push({
+      x: a.x + t * (b.x - a.x),
+      length: a.length + t * (b.length - a.length),
+      angle: a.angle + t * (b.angle - a.angle),
+    });
+  }
+  return hits;
+}
+
+// Closest of `points` to p (both halves of the wall), if within maxDistance
+export function snapToWall(
+  points: Vec2[],
+  p: Vec2,
+  maxDistance: number
+): Vec2 | null {
+  let best: Vec2 | null = null;
+  let bestDistance = maxDistance;
+  for (const q of points) {
+    for (const y of [q.y, -q.y]) {
+      const d = Math.hypot(q.x - p.x, y - p.y);
+      if (d <= bestDistance) {
+        bestDistance = d;
+        best = { x: q.x, y };
+      }
+    }
+  }
+  return best;
+}
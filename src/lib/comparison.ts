@@ -0,0 +1,109 @@
+import { C_SOUND } from "./lecleach";
+import type { HornJob, HornResult, OutlinePoint } from "./hornModel";
+import { DEFAULT_PROJECT, type ProjectDesign } from "./project";
+
+// Derived metrics shown side by side in the comparison table
+export interface DesignMetrics {
+  depth: number; // mm
+  mouthDiameter: number; // mm (width of non-round horns)
+  mouthHeight: number; // mm
+  pathLength: number; // Wall length from throat to mouth (mm)
+  finalAngle: number; // Wall angle at the mouth (degrees)
+  rollbackStart: number | null; // Path length where the rollback takes over (mm)
+  mouthKa: number; // Mouth circumference over wavelength at fc
+  pointCount: number;
+}
+
+// A solved design kept for comparison. The job holds its own parameters, so
+// the design can be made active again exactly as it was.
+export interface SavedDesign {
+  id: number;
+  name: string;
+  color: string;
+  visible: boolean;
+  job: HornJob;
+  chartData: OutlinePoint[]; // Downsampled wall
+  metrics: DesignMetrics;
+}
+
+// Distinct from the active wall (blue), vertical wall (orange), shell (gray),
+// Bézier fit (red) and imported profile (green)
+export const COMPARISON_COLORS = [
+  "#7C3AED",
+  "#DB2777",
+  "#0891B2",
+  "#CA8A04",
+  "#4F46E5",
+  "#65A30D",
+  "#9F1239",
+  "#0F766E",
+];
+
+export function designMetrics(job: HornJob, result: HornResult): DesignMetrics {
+  const { points, dimensions } = result;
+  const last = points[points.length - 1];
+  const rollback = points.find((p) => p.regime === "spiral");
+  return {
+    depth: dimensions.depth,
+    mouthDiameter: dimensions.mouthDiameter,
+    mouthHeight: dimensions.mouthHeight,
+    pathLength: last?.length ?? 0,
+    finalAngle: last?.angle ?? 0,
+    rollbackStart: rollback ? rollback.length : null,
+    mouthKa: (Math.PI * dimensions.mouthDiameter * job.params.fc) / C_SOUND,
+    pointCount: points.length,
+  };
+}
+
+// Short label from the parameters that usually differ between candidates
+export function designName(job: HornJob): string {
+  const { fc, T, d0 } = job.params;
+  return job.family === "lecleach"
+    ? `${fc} Hz / T ${T} / ${d0} mm`
+    : `${job.family} ${fc} Hz / ${d0} mm`;
+}
+
+export function saveDesign(
+  job: HornJob,
+  result: HornResult,
+  id: number,
+  name: string
+): SavedDesign {
+  return {
+    id,
+    name,
+    color: COMPARISON_COLORS[(id - 1) % COMPARISON_COLORS.length],
+    visible: true,
+    job,
+    chartData: result.chartData.map(({ x, y, negY }) => ({ x, y, negY })),
+    metrics: designMetrics(job, result),
+  };
+}
+
+// Design inputs of a saved job, with the defaults filled in where the job
+// left an optional parameter out
+export function jobDesign(job: HornJob): ProjectDesign {
+  const defaults = DEFAULT_PROJECT.design;
+  const { params, familyOptions } = job;
+  return {
+    family: job.family,
+    coneAngle: familyOptions.coneAngle,
+    coverageAngle: familyOptions.coverageAngle,
+    fc: params.fc,
+    T: params.T,
+    d0: params.d0,
+    roundOver: params.roundOver,
+    rollbackMode: params.rollbackMode ?? defaults.rollbackMode,
+    spiralGrowth: params.spiralGrowth ?? defaults.spiralGrowth,
+    clothoidRate: params.clothoidRate ?? defaults.clothoidRate,
+    lipRadius: params.lipRadius ?? defaults.lipRadius,
+    termination: params.termination ?? defaults.termination,
+    stopDiameter: params.stopDiameter ?? defaults.stopDiameter,
+    stopDepth: params.stopDepth ?? defaults.stopDepth,
+    stopLength: params.stopLength ?? defaults.stopLength,
+    crossSection: params.crossSection ?? defaults.crossSection,
+    throatWidth: params.throatWidth ?? defaults.throatWidth,
+    throatHeight: params.throatHeight ?? defaults.throatHeight,
+    mouthAspect: params.mouthAspect ?? defaults.mouthAspect,
+  };
+}
@@ -0,0 +1,166 @@
+import type { Point } from "./lecleach";
+
+export type CsvUnits = "mm" | "cm" | "m" | "in";
+export type CsvAxis = "x" | "y" | "z";
+export type CsvDelimiter = "," | ";" | "\t" | " ";
+export type ResampleMode = "none" | "count" | "spacing";
+export type ResampleWeighting = "uniform" | "curvature";
+
+export interface CsvOptions {
+  units: CsvUnits;
+  axis: CsvAxis; // Coordinate that carries the horn axis
+  mirror: boolean; // Also write the mirrored half (negative radius)
+  delimiter: CsvDelimiter;
+  header: boolean;
+  notes: boolean; // Design comment lines above the coordinates
+  resample: ResampleMode;
+  count: number; // Points per wall when resampling to a count
+  spacing: number; // mm between points (average when curvature-weighted)
+  weighting: ResampleWeighting;
+}
+
+// The original export: centimetres, axis on X, every solver point
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  units: "cm",
+  axis: "x",
+  mirror: false,
+  delimiter: ",",
+  header: true,
+  notes: false,
+  resample: "none",
+  count: 200,
+  spacing: 2,
+  weighting: "uniform",
+};
+
+// Millimetres per unit
+const UNIT_SIZE: Record<CsvUnits, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+};
+
+// About a micrometre of resolution whatever the unit
+const UNIT_DECIMALS: Record<CsvUnits, number> = { mm: 3, cm: 4, m: 6, in: 5 };
+
+const AXES: CsvAxis[] = ["x", "y", "z"];
+
+const DELIMITER_NAMES: Record<CsvDelimiter, string> = {
+  ",": "comma",
+  ";": "semicolon",
+  "\t": "tab",
+  " ": "space",
+};
+
+export interface CsvWall {
+  points: Point[];
+  vertical: boolean; // Height wall of a non-round horn, in the third plane
+}
+
+// Resample a wall along its length. Curvature weighting spends half of the
+// points on length and half on turning, so the rollback gets denser points
+// than the straight body.
+export function resampleWall(points: Point[], options: CsvOptions): Point[] {
+  if (options.resample === "none" || points.length < 2) return points;
+
+  const steps: { ds: number; dTheta: number }[] = [];
+  let length = 0;
+  let turning = 0;
+  for (let i = 1; i < points.length; i++) {
+    const ds = Math.hypot(
+      points[i].x - points[i - 1].x,
+      points[i].y - points[i - 1].y
+    );
+    const dTheta =
+      (Math.abs(points[i].angle - points[i - 1].angle) * Math.PI) / 180;
+    steps.push({ ds, dTheta });
+    length += ds;
+    turning += dTheta;
+  }
+  const weight =
+    options.weighting === "curvature" && turning > 0 ? length / turning : 0;
+  const measure = [0];
+  for (const { ds, dTheta } of steps) {
+    measure.push(measure[measure.length - 1] + ds + weight * dTheta);
+  }
+
+  const total = measure[measure.length - 1];
+  const count =
+    options.resample === "count"
+      ? Math.max(2, Math.round(options.count))
+      : Math.max(2, Math.ceil(length / Math.max(options.spacing, 1e-3)) + 1);
+
+  const result: Point[] = [];
+  let j = 0;
+  for (let k = 0; k < count; k++) {
+    const target = (k / (count - 1)) * total;
+    while (j < points.length - 2 && measure[j + 1] < target) j++;
+    const span = measure[j + 1] - measure[j];
+    const t = span > 0 ? Math.min(1, (target - measure[j]) / span) : 0;
+    const a = points[j];
+    const b = points[j + 1];
+    result.push({
+      ...a,
+      index: k,
+      x: a.x + t * (b.x - a.x),
+      y: a.y + t * (b.y - a.y),
+      length: a.length + t * (b.length - a.length),
+      angle: a.angle + t * (b.angle - a.angle),
+    });
+  }
+  return result;
+}
+
+// Coordinate rows for the walls, in the chosen units and axis layout. The
+// radius goes on the axis after the horn axis (X -> Y -> Z -> X), and the
+// vertical wall of a non-round horn on the remaining one. Each wall, and each
+// mirrored copy, is its own block separated by a blank line.
+export function formatProfileCSV(
+  walls: CsvWall[],
+  options: CsvOptions
+): string {
+  const size = UNIT_SIZE[options.units];
+  const decimals = UNIT_DECIMALS[options.units];
+  const axial = AXES.indexOf(options.axis);
+  const d = options.delimiter;
+
+  const blocks: string[] = [];
+  for (const wall of walls) {
+    const radial = (axial + (wall.vertical ? 2 : 1)) % 3;
+    const points = resampleWall(wall.points, options);
+    for (const side of options.mirror ? [1, -1] : [1]) {
+      let block = "";
+      for (const p of points) {
+        const row = [0, 0, 0];
+        row[axial] = p.x / size;
+        row[radial] = (side * p.y) / size;
+        block += row.map((v) => v.toFixed(decimals)).join(d) + "\n";
+      }
+      blocks.push(block);
+    }
+  }
+
+  const header = options.header
+    ? AXES.map((a) => `${a.toUpperCase()} (${options.units})`).join(d) + "\n"
+    : "";
+  return header + blocks.join("\n");
+}
+
+// Short description of the options for file names
+export function csvOptionsTag(options: CsvOptions): string {
+  const parts = [
+    options.units,
+    `${options.axis}axis`,
+    DELIMITER_NAMES[options.delimiter],
+  ];
+  if (options.mirror) parts.push("mirror");
+  if (!options.header) parts.push("noheader");
+  if (options.notes) parts.push("notes");
+  if (options.resample === "count") parts.push(`n${options.count}`);
+  if (options.resample === "spacing") parts.push(`s${options.spacing}mm`);
+  if (options.resample !== "none" && options.weighting === "curvature") {
+    parts.push("curv");
+  }
+  return parts.join("-");
+}
@@ -0,0 +1,307 @@
+import type { Point } from "./lecleach";
+import type { Vec2 } from "./shell";
+
+// One cubic Bézier span: anchors p0 and p3, handles p1 and p2 (mm)
+export interface BezierSegment {
+  p0: Vec2;
+  p1: Vec2;
+  p2: Vec2;
+  p3: Vec2;
+}
+
+export interface BezierFit {
+  segments: BezierSegment[];
+  tolerance: number; // Requested max deviation (mm)
+  maxError: number; // Achieved max deviation from the profile polyline (mm)
+}
+
+const MAX_ITERATIONS = 4; // Newton reparameterisation passes before splitting
+const SUBSAMPLES = 3; // Curve points checked between each pair of points
+
+const add = (a: Vec2, b: Vec2): Vec2 => ({ x: a.x + b.x, y: a.y + b.y });
+const sub = (a: Vec2, b: Vec2): Vec2 => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: Vec2, s: number): Vec2 => ({ x: a.x * s, y: a.y * s });
+const dot = (a: Vec2, b: Vec2) => a.x * b.x + a.y * b.y;
+const distance = (a: Vec2, b: Vec2) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Unit tangent of the wall, straight from the solver's wall angle
+const tangent = (p: Point): Vec2 => {
+  const theta = (p.angle * Math.PI) / 180;
+  return { x: Math.cos(theta), y: Math.sin(theta) };
+};
+
+export function bezierPoint(s: BezierSegment, u: number): Vec2 {
+  const v = 1 - u;
+  const b0 = v * v * v;
+  const b1 = 3 * u * v * v;
+  const b2 = 3 * u * u * v;
+  const b3 = u * u * u;
+  return {
+    x: b0 * s.p0.x + b1 * s.p1.x + b2 * s.p2.x + b3 * s.p3.x,
+    y: b0 * s.p0.y + b1 * s.p1.y + b2 * s.p2.y + b3 * s.p3.y,
+  };
+}
+
+// First and second derivatives of a segment at u
+function derivatives(s: BezierSegment, u: number): [Vec2, Vec2] {
+  const v = 1 - u;
+  const d0 = scale(sub(s.p1, s.p0), 3);
+  const d1 = scale(sub(s.p2, s.p1), 3);
+  const d2 = scale(sub(s.p3, s.p2), 3);
+  const first = add(
+    add(scale(d0, v * v), scale(d1, 2 * u * v)),
+    scale(d2, u * u)
+  );
+  const second = add(scale(sub(d1, d0), 2 * v), scale(sub(d2, d1), 2 * u));
+  return [first, second];
+}
+
+// Least-squares handle lengths along fixed end tangents (Schneider, Graphics
+// Gems 1990). Falls back to a third of the chord when the system is
+// degenerate or would flip a handle.
+function generateBezier(
+  points: Vec2[],
+  u: number[],
+  t1: Vec2,
+  t2: Vec2
+): BezierSegment {
+  const first = points[0];
+  const last = points[points.length - 1];
+  let c00 = 0;
+  let c01 = 0;
+  let c11 = 0;
+  let x0 = 0;
+  let x1 = 0;
+  points.forEach((p, i) => {
+    const v = 1 - u[i];
+    const a1 = scale(t1, 3 * u[i] * v * v);
+    const a2 = scale(t2, 3 * u[i] * u[i] * v);
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+    const base = bezierPoint(
+      { p0: first, p1: first, p2: last, p3: last },
+      u[i]
+    );
+    const rest = sub(p, base);
+    x0 += dot(a1, rest);
+    x1 += dot(a2, rest);
+  });
+
+  const det = c00 * c11 - c01 * c01;
+  const chord = distance(first, last);
+  let alpha1 = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alpha2 = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+  const epsilon = 1e-6 * chord;
+  if (alpha1 < epsilon || alpha2 < epsilon) {
+    alpha1 = chord / 3;
+    alpha2 = chord / 3;
+  }
+  return {
+    p0: first,
+    p1: add(first, scale(t1, alpha1)),
+    p2: add(last, scale(t2, -alpha2)),
+    p3: last,
+  };
+}
+
+function chordParameters(points: Vec2[]): number[] {
+  const u = [0];
+  for (let i = 1; i < points.length; i++) {
+    u.push(u[i - 1] + distance(points[i], points[i - 1]));
+  }
+  const total = u[u.length - 1] || 1;
+  return u.map((value) => value / total);
+}
+
+// One Newton step towards the parameter of the closest curve point
+function refine(s: BezierSegment, p: Vec2, u: number): number {
+  const d = sub(bezierPoint(s, u), p);
+  const [first, second] = derivatives(s, u);
+  const denominator = dot(first, first) + dot(d, second);
+  if (denominator === 0) return u;
+  return Math.min(1, Math.max(0, u - dot(d, first) / denominator));
+}
+
+// Distance from p to the segment a-b
+function segmentDistance(p: Vec2, a: Vec2, b: Vec2): number {
+  const ab = sub(b, a);
+  const length = dot(ab, ab);
+  const t =
+    length === 0 ? 0 : Math.min(1, Math.max(0, dot(sub(p, a), ab) / length));
+  return distance(p, add(a, scale(ab, t)));
+}
+
+// Worst gap between the curve and the polyline through the points, both
+// ways: each point to its curve point, and curve points between each pair
+// of parameters to the nearest nearby polyline segment. Checking only at
+// the points misses the curve bulging away between them. `index` is the
+// point to split at.
+function maxDeviation(
+  s: BezierSegment,
+  points: Vec2[],
+  u: number[]
+): { error: number; index: number } {
+  let error = 0;
+  let index = Math.floor(points.length / 2);
+  for (let i = 1; i < points.length; i++) {
+    if (i < points.length - 1) {
+      const d = distance(bezierPoint(s, u[i]), points[i]);
+      if (d > error) {
+        error = d;
+        index = i;
+      }
+    }
+    for (let k = 1; k <= SUBSAMPLES; k++) {
+      const q = bezierPoint(
+        s,
+        u[i - 1] + ((u[i] - u[i - 1]) * k) / (SUBSAMPLES + 1)
+      );
+      // The parameters only roughly track the points, so allow the
+      // segments either side as well
+      let d = Infinity;
+      for (
+        let j = Math.max(1, i - 1);
+        j <= Math.min(points.length - 1, i + 1);
+        j++
+      ) {
+        d = Math.min(d, segmentDistance(q, points[j - 1], points[j]));
+      }
+      if (d > error) {
+        error = d;
+        index = k <= SUBSAMPLES / 2 ? i - 1 : i;
+      }
+    }
+  }
+  return { error, index };
+}
+
+function fitRange(
+  points: Point[],
+  first: number,
+  last: number,
+  tolerance: number,
+  out: BezierSegment[]
+): number {
+  const span = points.slice(first, last + 1).map((p) => ({ x: p.x, y: p.y }));
+  const t1 = tangent(points[first]);
+  const t2 = tangent(points[last]);
+
+  let u = chordParameters(span);
+  let segment = generateBezier(span, u, t1, t2);
+  let { error, index } = maxDeviation(segment, span, u);
+
+  for (let k = 0; k < MAX_ITERATIONS && error > tolerance; k++) {
+    u = u.map((value, i) => refine(segment, span[i], value));
+    segment = generateBezier(span, u, t1, t2);
+    ({ error, index } = maxDeviation(segment, span, u));
+  }
+
+  if (error <= tolerance || span.length <= 2) {
+    out.push(segment);
+    return error;
+  }
+
+  // Split at the worst point. The wall angle there is the tangent of both
+  // halves, so the joined curve stays smooth.
+  const split = first + Math.min(Math.max(index, 1), span.length - 2);
+  const left = fitRange(points, first, split, tolerance, out);
+  const right = fitRange(points, split, last, tolerance, out);
+  return Math.max(left, right);
+}
+
+// Piecewise cubic Bézier through the profile, with as few spans as the
+// tolerance allows. Anchors sit on profile points and the spans meet with a
+// common tangent, so the curve is G1 continuous.
+export function fitBezier(points: Point[], tolerance: number): BezierFit {
+  const segments: BezierSegment[] = [];
+  const limit = Math.max(tolerance, 1e-4);
+  if (points.length < 2) return { segments, tolerance: limit, maxError: 0 };
+  const maxError = fitRange(points, 0, points.length - 1, limit, segments);
+  return { segments, tolerance: limit, maxError };
+}
+
+// Points along the fitted curve, for drawing it
+export function sampleBezier(fit: BezierFit, perSegment = 16): Vec2[] {
+  const samples: Vec2[] = [];
+  fit.segments.forEach((s, index) => {
+    for (let k = index === 0 ? 0 : 1; k <= perSegment; k++) {
+      samples.push(bezierPoint(s, k / perSegment));
+    }
+  });
+  return samples;
+}
+
+// Control polygon as anchor, handle, handle, anchor, ... with the shared
+// anchors written once. Same cm units as the point CSV.
+export function generateBezierCSV(fit: BezierFit): string {
+  let csv =
+    `# ${fit.segments.length} cubic Bezier segments, max deviation ` +
+    `${fit.maxError.toFixed(
+      4
+    )} mm. Rows: anchor, handle, handle, anchor, ...\n`;
+  csv += "X (cm),Y (cm),Z (cm),Kind\n";
+  const row = (p: Vec2, kind: string) =>
+    `${(p.x / 10).toFixed(4)},${(p.y / 10).toFixed(4)},0.0000,${kind}\n`;
+  fit.segments.forEach((s, index) => {
+    if (index === 0) csv += row(s.p0, "anchor");
+    csv += row(s.p1, "handle") + row(s.p2, "handle") + row(s.p3, "anchor");
+  });
+  return csv;
+}
+
+// SVG path data in millimetres. SVG's y axis points down, so radius is
+// negated unless `mirror` asks for the lower half.
+export function bezierPathData(fit: BezierFit, mirror = false): string {
+  const f = (p: Vec2) =>
+    `${p.x.toFixed(3)} ${(mirror ? p.y : -p.y).toFixed(3)}`;
+  return fit.segments
+    .map(
+      (s, index) =>
+        `${index === 0 ? `M ${f(s.p0)} ` : ""}C ${f(s.p1)} ${f(s.p2)} ${f(
+          s.p3
+        )}`
+    )
+    .join(" ");
+}
+
+// Both halves of the profile and the axis at 1:1 scale
+export function generateBezierSVG(fit: BezierFit): string {
+  let minX = 0;
+  let maxX = 0;
+  let maxR = 0;
+  for (const s of fit.segments) {
+    for (const p of [s.p0, s.p1, s.p2, s.p3]) {
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+      maxR = Math.max(maxR, Math.abs(p.y));
+    }
+  }
+  const margin = 10;
+  const x0 = minX - margin;
+  const width = maxX - minX + 2 * margin;
+  const height = 2 * (maxR + margin);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width.toFixed(
+      2
+    )}mm" height="${height.toFixed(2)}mm" viewBox="${x0.toFixed(3)} ${(
+      -height / 2
+    ).toFixed(3)} ${width.toFixed(3)} ${height.toFixed(3)}">`,
+    `<!-- ${
+      fit.segments.length
+    } cubic Bezier segments, max deviation ${fit.maxError.toFixed(4)} mm -->`,
+    `<line x1="${minX.toFixed(3)}" y1="0" x2="${maxX.toFixed(
+      3
+    )}" y2="0" stroke="#9CA3AF" stroke-width="0.2" stroke-dasharray="4 1 1 1"/>`,
+    `<path d="${bezierPathData(
+      fit
+    )}" fill="none" stroke="#000" stroke-width="0.3"/>`,
+    `<path d="${bezierPathData(
+      fit,
+      true
+    )}" fill="none" stroke="#000" stroke-width="0.3"/>`,
+    "</svg>",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,431 @@
+import { C_SOUND, MAX_STEPS, type Point } from "./lecleach";
+import type { HornJob, HornResult } from "./hornModel";
+import type { Vec2 } from "./shell";
+
+export type IssueSeverity = "error" | "warning";
+
+// One failed rule: what is wrong, why it matters and what to change
+export interface DesignIssue {
+  rule: string; // Stable id, e.g. "truncated"
+  severity: IssueSeverity;
+  title: string;
+  detail: string;
+  fix: string;
+}
+
+interface ParamRule {
+  label: string;
+  value: number;
+  min: number; // Smallest valid value
+  exclusive: boolean; // The minimum itself is invalid
+  fix: string;
+}
+
+// A wall counts as reaching roundOver if one more step would have got there
+const MIN_ANGLE_ALLOWANCE = 0.5; // degrees
+
+function paramIssues(job: HornJob): DesignIssue[] {
+  const { params, familyOptions } = job;
+  const isLeCleach = job.family === "lecleach";
+  const crossSection = params.crossSection ?? "round";
+  const isRound = !isLeCleach || crossSection === "round";
+  const rollbackMode = params.rollbackMode ?? "spiral";
+  const issues: DesignIssue[] = [];
+
+  const rules: ParamRule[] = [
+    {
+      label: "Target cutoff",
+      value: params.fc,
+      min: 0,
+      exclusive: true,
+      fix: "Enter a cutoff frequency in Hz, e.g. 500.",
+    },
+    {
+      label: "Wall thickness",
+      value: job.shell.wallThickness,
+      min: 0,
+      exclusive: false,
+      fix: "Use 0 for no outer wall.",
+    },
+    {
+      label: "Solver chord tolerance",
+      value: job.tolerance,
+      min: 0,
+      exclusive: false,
+      fix: "Use 0 for fixed 0.5 mm steps or an adaptive chord deviation such as 0.01 mm.",
+    },
+  ];
+  if (isRound) {
+    rules.push({
+      label: "Throat diameter",
+      value: params.d0,
+      min: 0,
+      exclusive: true,
+      fix: "Enter the driver exit diameter in mm, e.g. 25.4 or 36.",
+    });
+  } else {
+    rules.push(
+      {
+        label: "Throat width",
+        value: params.throatWidth ?? 0,
+        min: 0,
+        exclusive: true,
+        fix: "Enter the throat width in mm.",
+      },
+      {
+        label: "Throat height",
+        value: params.throatHeight ?? 0,
+        min: 0,
+        exclusive: true,
+        fix: "Enter the throat height in mm.",
+      },
+      {
+        label: "Mouth aspect",
+        value: params.mouthAspect ?? 1,
+        min: 0,
+        exclusive: true,
+        fix: "Use a width/height ratio such as 1.5, or 1 for a square mouth.",
+      }
+    );
+  }
+  if (isLeCleach) {
+    rules.push(
+      {
+        label: "Expansion factor T",
+        value: params.T,
+        min: 0,
+        exclusive: true,
+        fix: "Use a T between 0.5 and 2; 1 is the usual starting point.",
+      },
+      {
+        label: "Rollback angle",
+        value: params.roundOver,
+        min: 0,
+        exclusive: true,
+        fix: "Use an angle between 90° and 360°, e.g. 180°.",
+      }
+    );
+    const termination = params.termination ?? "angle";
+    if (termination === "diameter") {
+      const throat = isRound ? params.d0 : params.throatWidth ?? 0;
+      rules.push({
+        label: "Stop diameter",
+        value: params.stopDiameter ?? 0,
+        min: throat,
+        exclusive: true,
+        fix: `Enter a mouth diameter larger than the ${throat} mm throat.`,
+      });
+    } else if (termination === "depth") {
+      rules.push({
+        label: "Stop depth",
+        value: params.stopDepth ?? 0,
+        min: 0,
+        exclusive: true,
+        fix: "Enter the depth available in the cabinet in mm.",
+      });
+    } else if (termination === "length") {
+      rules.push({
+        label: "Stop length",
+        value: params.stopLength ?? 0,
+        min: 0,
+        exclusive: true,
+        fix: "Enter a wall length in mm.",
+      });
+    }
+    if (rollbackMode === "spiral") {
+      rules.push({
+        label: "Spiral growth",
+        value: params.spiralGrowth ?? 1.0025,
+        min: 0,
+        exclusive: true,
+        fix: "Use a growth above zero; the default is 1.0025 %/mm.",
+      });
+    } else if (rollbackMode === "clothoid") {
+      rules.push({
+        label: "Clothoid rate",
+        value: params.clothoidRate ?? 0.005,
+        min: 0,
+        exclusive: true,
+        fix: "Use a rate above zero; the default is 0.005 °/mm².",
+      });
+    } else if (rollbackMode === "circular") {
+      rules.push({
+        label: "Lip radius",
+        value: params.lipRadius ?? 0,
+        min: 0,
+        exclusive: false,
+        fix: "Use 0 to follow the curvature at the handover.",
+      });
+    }
+  }
+  if (job.family === "conical" || job.family === "os") {
+    const isCone = job.family === "conical";
+    const angle = isCone
+      ? familyOptions.coneAngle
+      : familyOptions.coverageAngle;
+    if (!(angle > 0 && angle < 90)) {
+      issues.push({
+        rule: "invalid-param",
+        severity: "error",
+        title: `${isCone ? "Cone" : "Coverage"} angle is out of range`,
+        detail: `The half-angle is ${angle}°, so the wall can't open out from the throat.`,
+        fix: "Use a half-angle between 1° and 89°.",
+      });
+    }
+  }
+
+  for (const rule of rules) {
+    const valid =
+      isFinite(rule.value) &&
+      (rule.exclusive ? rule.value > rule.min : rule.value >= rule.min);
+    if (valid) continue;
+    issues.push({
+      rule: "invalid-param",
+      severity: "error",
+      title: `${rule.label} is ${
+        isFinite(rule.value) ? rule.value : "not a number"
+      }`,
+      detail: `It must be ${rule.exclusive ? "above" : "at least"} ${
+        rule.min
+      }.${
+        rule.value === 0
+          ? " An empty field reads as 0, and the solver then produces no wall."
+          : ""
+      }`,
+      fix: rule.fix,
+    });
+  }
+  if (isLeCleach && params.roundOver > 360) {
+    issues.push({
+      rule: "param-range",
+      severity: "warning",
+      title: "Rollback angle is above 360°",
+      detail: `At ${params.roundOver}° the lip would turn more than a full circle and almost always curls back into the axis or the wall.`,
+      fix: "Keep the rollback angle at 360° or less.",
+    });
+  }
+  return issues;
+}
+
+// Orientation of c relative to the line a→b
+function cross(a: Vec2, b: Vec2, c: Vec2): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+function segmentsCross(a: Vec2, b: Vec2, c: Vec2, d: Vec2): boolean {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+// First point where the wall runs back across itself. The radius only
+// falls once the wall has turned past 180°, and before that it can't reach
+// any earlier part, so only those segments need testing.
+function selfIntersection(points: Point[]): Point | null {
+  for (let j = 2; j < points.length; j++) {
+    if (points[j].angle <= 180) continue;
+    const a = points[j - 1];
+    const b = points[j];
+    for (let i = 1; i < j - 1; i++) {
+      if (segmentsCross(points[i - 1], points[i], a, b)) return b;
+    }
+  }
+  return null;
+}
+
+// The radius, depth or path length a wall stops at, and how much of it the
+// wall reached
+function wallLimit(
+  job: HornJob,
+  last: Point,
+  scale: number // Wall size over mouth width
+): { target: number; reached: number; name: string } | null {
+  const { params } = job;
+  switch (params.termination ?? "angle") {
+    case "diameter":
+      // Compared as diameters; the vertical wall of a non-round horn stops
+      // at the mouth height
+      return {
+        target: (params.stopDiameter ?? 0) * scale,
+        reached: 2 * last.y,
+        name: scale === 1 ? "mouth diameter" : "mouth height",
+      };
+    case "depth":
+      return { target: params.stopDepth ?? 0, reached: last.x, name: "depth" };
+    case "length":
+      return {
+        target: params.stopLength ?? 0,
+        reached: last.length,
+        name: "wall length",
+      };
+    default:
+      return null;
+  }
+}
+
+function wallIssues(
+  job: HornJob,
+  points: Point[],
+  wall: string, // "The wall", "The vertical wall", ...
+  scale: number // Wall size over mouth width
+): DesignIssue[] {
+  const issues: DesignIssue[] = [];
+  const { roundOver } = job.params;
+  const rollbackMode = job.params.rollbackMode ?? "spiral";
+  const last = points[points.length - 1];
+  const limit = job.family === "lecleach" ? wallLimit(job, last, scale) : null;
+  // The solver ends the wall exactly on the limit
+  const reachedLimit = limit !== null && limit.reached >= limit.target - 1e-3;
+  const at = `${last.x.toFixed(1)} mm deep, ${last.angle.toFixed(1)}°`;
+
+  if (points.length - 1 >= MAX_STEPS) {
+    issues.push({
+      rule: "max-steps",
+      severity: "error",
+      title: "Solver step limit reached",
+      detail: `${wall} stopped after ${MAX_STEPS} steps at ${at}, before reaching the rollback angle. Everything past that point is missing.`,
+      fix:
+        job.tolerance > 0
+          ? "Raise the solver chord tolerance, raise the cutoff, or lower the rollback angle."
+          : "Switch the solver to adaptive steps, which trade some accuracy for far fewer steps, or raise the cutoff.",
+    });
+    return issues;
+  }
+
+  const allowance = Math.max(
+    MIN_ANGLE_ALLOWANCE,
+    3 * Math.abs(last.deltaAngle)
+  );
+  if (
+    job.family === "lecleach" &&
+    !reachedLimit &&
+    last.angle < roundOver - allowance
+  ) {
+    if (last.regime === "spiral" && last.angle > 180) {
+      issues.push({
+        rule: "spiral-axis",
+        severity: "error",
+        title: "Rollback curls into the axis",
+        detail: `${wall} turned back far enough to reach the axis at ${at}, so the solver stopped short of the ${roundOver}° rollback angle.`,
+        fix: `Lower the rollback angle to about ${Math.floor(
+          last.angle
+        )}°, or tighten the lip so it turns before it gets there: ${
+          rollbackMode === "circular"
+            ? "use a smaller lip radius"
+            : rollbackMode === "clothoid"
+            ? "use a larger clothoid rate"
+            : "use a larger spiral growth"
+        }.`,
+      });
+    } else if (last.regime === "physical" && last.angle > 179) {
+      issues.push({
+        rule: "truncated",
+        severity: "warning",
+        title: `Profile stops at 180°, not ${roundOver}°`,
+        detail:
+          "The area law has a singularity at 180°, so the physical solution can't turn any further.",
+        fix:
+          rollbackMode === "physical"
+            ? "Pick a spiral, clothoid or circular rollback to carry the lip past 180°, or set the rollback angle to 180°."
+            : "Set the rollback angle to 180° or less.",
+      });
+    } else {
+      issues.push({
+        rule: "truncated",
+        severity: "warning",
+        title: `Profile ends at ${last.angle.toFixed(1)}°, not ${roundOver}°`,
+        detail: `${wall} stopped at ${at} before reaching the rollback angle, so the exported mouth is not the one you asked for.`,
+        fix: `Lower the rollback angle to ${Math.floor(last.angle)}° or less.`,
+      });
+    }
+  } else if (limit && !reachedLimit) {
+    issues.push({
+      rule: "limit-not-reached",
+      severity: "warning",
+      title: `Stop ${limit.name} not reached`,
+      detail: `${wall} reached the ${roundOver}° rollback angle at ${at}, before the ${limit.target.toFixed(
+        1
+      )} mm ${limit.name}, so it ends at the angle instead.`,
+      fix: "Raise the rollback angle, or lower the target.",
+    });
+  }
+
+  const crossing = selfIntersection(points);
+  if (crossing) {
+    issues.push({
+      rule: "self-intersection",
+      severity: "error",
+      title: "Rollback crosses the wall",
+      detail: `${wall} runs back across itself at ${crossing.x.toFixed(
+        1
+      )} mm deep, ${crossing.y.toFixed(
+        1
+      )} mm from the axis. The outline can't be meshed or machined.`,
+      fix: `Lower the rollback angle below ${Math.floor(crossing.angle)}°.`,
+    });
+  }
+  return issues;
+}
+
+// Run every rule against a solved job. Parameter errors are reported alone,
+// since the profile rules would only repeat them.
+export function checkDesign(job: HornJob, result: HornResult): DesignIssue[] {
+  const params = paramIssues(job);
+  if (params.some((issue) => issue.severity === "error")) return params;
+
+  const { points, verticalPoints } = result;
+  if (points.length < 2) {
+    return [
+      ...params,
+      {
+        rule: "empty-profile",
+        severity: "error",
+        title: "No profile was generated",
+        detail:
+          "The solver returned no wall for these parameters, so the chart, stats and exports are empty.",
+        fix: "Check the throat size and cutoff, then try the default design.",
+      },
+    ];
+  }
+
+  const issues = [...params];
+  if (verticalPoints.length > 0) {
+    const { d0, throatWidth, throatHeight } = job.params;
+    const mouthAspect =
+      job.params.mouthAspect ?? (throatWidth ?? d0) / (throatHeight ?? d0);
+    issues.push(
+      ...wallIssues(job, points, "The horizontal wall", 1),
+      ...wallIssues(job, verticalPoints, "The vertical wall", 1 / mouthAspect)
+    );
+  } else {
+    issues.push(...wallIssues(job, points, "The wall", 1));
+  }
+
+  // Other families end at ka = 1 by construction. A rolled-back lip ends
+  // nearer the axis than its widest point, so the widest point is the mouth.
+  if (job.family === "lecleach") {
+    const { fc, roundOver } = job.params;
+    const mouthDiameter = 2 * points.reduce((max, p) => Math.max(max, p.y), 0);
+    const mouthKa = (Math.PI * mouthDiameter * fc) / C_SOUND;
+    if (mouthKa < 1) {
+      const kaFrequency = (C_SOUND / (Math.PI * mouthDiameter)).toFixed(0);
+      issues.push({
+        rule: "mouth-ka",
+        severity: "warning",
+        title: `Mouth is small for ${fc} Hz (ka = ${mouthKa.toFixed(2)})`,
+        detail: `A ${mouthDiameter.toFixed(
+          0
+        )} mm mouth has a circumference shorter than the wavelength at the cutoff, so the mouth reflects strongly below about ${kaFrequency} Hz and the horn won't load down to ${fc} Hz.`,
+        fix:
+          (job.params.termination ?? "angle") !== "angle"
+            ? `Raise the stop limit so the mouth grows, or raise the cutoff towards ${kaFrequency} Hz.`
+            : roundOver < 180
+            ? `Raise the rollback angle towards 180° so the mouth keeps growing, or raise the cutoff towards ${kaFrequency} Hz.`
+            : `Raise the cutoff towards ${kaFrequency} Hz.`,
+      });
+    }
+  }
+  return issues;
+}
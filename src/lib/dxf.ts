@@ -0,0 +1,408 @@
+import type { Flange, Vec2 } from "./shell";
+
+export interface DxfLayer {
+  name: string;
+  color: number; // AutoCAD Color Index
+  lineType?: "CONTINUOUS" | "CENTER";
+}
+
+export interface DxfPolyline {
+  layer: string;
+  points: Vec2[];
+  closed?: boolean;
+}
+
+export interface DxfLine {
+  layer: string;
+  from: Vec2;
+  to: Vec2;
+}
+
+export interface DxfCircle {
+  layer: string;
+  center: Vec2;
+  radius: number;
+}
+
+export interface DxfText {
+  layer: string;
+  at: Vec2;
+  height: number;
+  text: string;
+}
+
+export interface DxfEntities {
+  polylines?: DxfPolyline[];
+  lines?: DxfLine[];
+  circles?: DxfCircle[];
+  texts?: DxfText[];
+}
+
+// Geometry of one horn design in the profile plane (mm)
+export interface ProfileDrawing {
+  inner: Vec2[];
+  vertical: Vec2[]; // Vertical wall of non-axisymmetric horns, else empty
+  outer: Vec2[];
+  verticalOuter: Vec2[];
+  flange: Flange | null;
+}
+
+export const DXF_LAYERS: DxfLayer[] = [
+  { name: "HORN_INNER", color: 7 },
+  { name: "HORN_INNER_MIRROR", color: 8 },
+  { name: "HORN_VERTICAL", color: 30 },
+  { name: "HORN_VERTICAL_MIRROR", color: 32 },
+  { name: "HORN_OUTER", color: 3 },
+  { name: "HORN_OUTER_MIRROR", color: 3 },
+  { name: "FLANGE", color: 5 },
+  { name: "AXIS", color: 1, lineType: "CENTER" },
+];
+
+const mirror = (points: Vec2[]): Vec2[] =>
+  points.map((p) => ({ x: p.x, y: -p.y }));
+
+// DXF is a flat list of group code / value pairs, one per line
+function group(code: number, value: string | number): string {
+  const text =
+    typeof value === "number"
+      ? Number.isInteger(value)
+        ? value.toString()
+        : value.toFixed(4)
+      : value;
+  return `${code}\n${text}\n`;
+}
+
+// Handles are hex strings, unique within the drawing
+function handleCounter(): () => string {
+  let handle = 0x10;
+  return () => (handle++).toString(16).toUpperCase();
+}
+
+// Symbol table and record heads. Every record is owned by its table.
+function tableStart(name: string, handle: string, count: number): string {
+  return (
+    group(0, "TABLE") +
+    group(2, name) +
+    group(5, handle) +
+    group(330, "0") +
+    group(100, "AcDbSymbolTable") +
+    group(70, count)
+  );
+}
+
+function recordStart(
+  type: string,
+  handle: string,
+  owner: string,
+  subclass: string
+): string {
+  return (
+    group(0, type) +
+    group(type === "DIMSTYLE" ? 105 : 5, handle) +
+    group(330, owner) +
+    group(100, "AcDbSymbolTableRecord") +
+    group(100, subclass)
+  );
+}
+
+// Entity head: handle, owning block record, layer, then the subclass
+function entityStart(
+  type: string,
+  handle: string,
+  owner: string,
+  layer: string,
+  subclass: string
+): string {
+  return (
+    group(0, type) +
+    group(5, handle) +
+    group(330, owner) +
+    group(100, "AcDbEntity") +
+    group(8, layer) +
+    group(100, subclass)
+  );
+}
+
+// AC1015 (R2000) drawing with LWPOLYLINE entities. Beside the layers and
+// entities it carries the structure R2000 readers insist on: every symbol
+// table with its standard records, the model and paper space block records
+// and blocks, owner handles on every object, the root dictionary with
+// ACAD_GROUP, and $HANDSEED above the last handle used.
+export function writeDXF(layers: DxfLayer[], entities: DxfEntities): string {
+  const { polylines = [], lines = [], circles = [], texts = [] } = entities;
+  const nextHandle = handleCounter();
+
+  const rootDictionary = nextHandle();
+  const groupDictionary = nextHandle();
+  const modelSpace = nextHandle();
+  const paperSpace = nextHandle();
+
+  let tables = group(0, "SECTION") + group(2, "TABLES");
+
+  const vports = nextHandle();
+  tables += tableStart("VPORT", vports, 1);
+  tables += recordStart(
+    "VPORT",
+    nextHandle(),
+    vports,
+    "AcDbViewportTableRecord"
+  );
+  tables += group(2, "*Active") + group(70, 0);
+  tables += group(10, 0.0) + group(20, 0.0) + group(11, 1.0) + group(21, 1.0);
+  tables += group(12, 0.0) + group(22, 0.0) + group(13, 0.0) + group(23, 0.0);
+  tables += group(14, 10.0) + group(24, 10.0);
+  tables += group(15, 10.0) + group(25, 10.0);
+  tables += group(16, 0.0) + group(26, 0.0) + group(36, 1.0);
+  tables += group(17, 0.0) + group(27, 0.0) + group(37, 0.0);
+  tables += group(40, 1000.0) + group(41, 1.0) + group(42, 50.0);
+  tables += group(43, 0.0) + group(44, 0.0) + group(50, 0.0) + group(51, 0.0);
+  tables += group(71, 0) + group(72, 100) + group(73, 1) + group(74, 3);
+  tables += group(75, 0) + group(76, 0) + group(77, 0) + group(78, 0);
+  tables += group(0, "ENDTAB");
+
+  const ltypes = nextHandle();
+  tables += tableStart("LTYPE", ltypes, 4);
+  for (const name of ["ByBlock", "ByLayer"]) {
+    tables += recordStart(
+      "LTYPE",
+      nextHandle(),
+      ltypes,
+      "AcDbLinetypeTableRecord"
+    );
+    tables += group(2, name) + group(70, 0) + group(3, "");
+    tables += group(72, 65) + group(73, 0) + group(40, 0.0);
+  }
+  tables += recordStart(
+    "LTYPE",
+    nextHandle(),
+    ltypes,
+    "AcDbLinetypeTableRecord"
+  );
+  tables += group(2, "CONTINUOUS") + group(70, 0) + group(3, "Solid line");
+  tables += group(72, 65) + group(73, 0) + group(40, 0.0);
+  tables += recordStart(
+    "LTYPE",
+    nextHandle(),
+    ltypes,
+    "AcDbLinetypeTableRecord"
+  );
+  tables += group(2, "CENTER") + group(70, 0);
+  tables += group(3, "Center ____ _ ____ _") + group(72, 65);
+  tables += group(73, 4) + group(40, 50.0);
+  for (const length of [31.75, -6.35, 6.35, -6.35]) {
+    tables += group(49, length) + group(74, 0);
+  }
+  tables += group(0, "ENDTAB");
+
+  // Layer 0 always exists, ahead of the drawing's own layers
+  const layerTable = nextHandle();
+  const allLayers: DxfLayer[] = [
+    { name: "0", color: 7 },
+    ...layers.filter((layer) => layer.name !== "0"),
+  ];
+  tables += tableStart("LAYER", layerTable, allLayers.length);
+  for (const layer of allLayers) {
+    tables += recordStart(
+      "LAYER",
+      nextHandle(),
+      layerTable,
+      "AcDbLayerTableRecord"
+    );
+    tables += group(2, layer.name) + group(70, 0) + group(62, layer.color);
+    tables += group(6, layer.lineType ?? "CONTINUOUS");
+  }
+  tables += group(0, "ENDTAB");
+
+  const styles = nextHandle();
+  tables += tableStart("STYLE", styles, 1);
+  tables += recordStart(
+    "STYLE",
+    nextHandle(),
+    styles,
+    "AcDbTextStyleTableRecord"
+  );
+  tables += group(2, "Standard") + group(70, 0) + group(40, 0.0);
+  tables += group(41, 1.0) + group(50, 0.0) + group(71, 0);
+  tables += group(42, 2.5) + group(3, "txt") + group(4, "");
+  tables += group(0, "ENDTAB");
+
+  tables += tableStart("VIEW", nextHandle(), 0) + group(0, "ENDTAB");
+  tables += tableStart("UCS", nextHandle(), 0) + group(0, "ENDTAB");
+
+  const appids = nextHandle();
+  tables += tableStart("APPID", appids, 1);
+  tables += recordStart("APPID", nextHandle(), appids, "AcDbRegAppTableRecord");
+  tables += group(2, "ACAD") + group(70, 0);
+  tables += group(0, "ENDTAB");
+
+  // The dimension style table carries a second subclass marker
+  const dimstyles = nextHandle();
+  tables += tableStart("DIMSTYLE", dimstyles, 1);
+  tables += group(100, "AcDbDimStyleTable");
+  tables += recordStart(
+    "DIMSTYLE",
+    nextHandle(),
+    dimstyles,
+    "AcDbDimStyleTableRecord"
+  );
+  tables += group(2, "Standard") + group(70, 0);
+  tables += group(0, "ENDTAB");
+
+  const blockRecords = nextHandle();
+  tables += tableStart("BLOCK_RECORD", blockRecords, 2);
+  for (const [handle, name] of [
+    [modelSpace, "*Model_Space"],
+    [paperSpace, "*Paper_Space"],
+  ]) {
+    tables += recordStart(
+      "BLOCK_RECORD",
+      handle,
+      blockRecords,
+      "AcDbBlockTableRecord"
+    );
+    tables += group(2, name);
+  }
+  tables += group(0, "ENDTAB");
+  tables += group(0, "ENDSEC");
+
+  // Both layout blocks are empty; the drawing lives in ENTITIES
+  let blocks = group(0, "SECTION") + group(2, "BLOCKS");
+  for (const [owner, name] of [
+    [modelSpace, "*Model_Space"],
+    [paperSpace, "*Paper_Space"],
+  ]) {
+    blocks += group(0, "BLOCK") + group(5, nextHandle());
+    blocks += group(330, owner) + group(100, "AcDbEntity");
+    if (owner === paperSpace) blocks += group(67, 1);
+    blocks += group(8, "0") + group(100, "AcDbBlockBegin");
+    blocks += group(2, name) + group(70, 0);
+    blocks += group(10, 0.0) + group(20, 0.0) + group(30, 0.0);
+    blocks += group(3, name) + group(1, "");
+    blocks += group(0, "ENDBLK") + group(5, nextHandle());
+    blocks += group(330, owner) + group(100, "AcDbEntity");
+    if (owner === paperSpace) blocks += group(67, 1);
+    blocks += group(8, "0") + group(100, "AcDbBlockEnd");
+  }
+  blocks += group(0, "ENDSEC");
+
+  let body = group(0, "SECTION") + group(2, "ENTITIES");
+  for (const polyline of polylines) {
+    if (polyline.points.length < 2) continue;
+    body += entityStart(
+      "LWPOLYLINE",
+      nextHandle(),
+      modelSpace,
+      polyline.layer,
+      "AcDbPolyline"
+    );
+    body += group(90, polyline.points.length);
+    body += group(70, polyline.closed ? 1 : 0) + group(43, 0.0);
+    for (const p of polyline.points) {
+      body += group(10, p.x) + group(20, p.y);
+    }
+  }
+  for (const line of lines) {
+    body += entityStart(
+      "LINE",
+      nextHandle(),
+      modelSpace,
+      line.layer,
+      "AcDbLine"
+    );
+    body += group(10, line.from.x) + group(20, line.from.y) + group(30, 0.0);
+    body += group(11, line.to.x) + group(21, line.to.y) + group(31, 0.0);
+  }
+  for (const circle of circles) {
+    body += entityStart(
+      "CIRCLE",
+      nextHandle(),
+      modelSpace,
+      circle.layer,
+      "AcDbCircle"
+    );
+    body += group(10, circle.center.x) + group(20, circle.center.y);
+    body += group(30, 0.0) + group(40, circle.radius);
+  }
+  for (const text of texts) {
+    body += entityStart(
+      "TEXT",
+      nextHandle(),
+      modelSpace,
+      text.layer,
+      "AcDbText"
+    );
+    body += group(10, text.at.x) + group(20, text.at.y) + group(30, 0.0);
+    body += group(40, text.height) + group(1, text.text);
+    body += group(100, "AcDbText"); // Second marker, for alignment codes
+  }
+  body += group(0, "ENDSEC");
+
+  let objects = group(0, "SECTION") + group(2, "OBJECTS");
+  objects += group(0, "DICTIONARY") + group(5, rootDictionary);
+  objects += group(330, "0") + group(100, "AcDbDictionary") + group(281, 1);
+  objects += group(3, "ACAD_GROUP") + group(350, groupDictionary);
+  objects += group(0, "DICTIONARY") + group(5, groupDictionary);
+  objects += group(330, rootDictionary) + group(100, "AcDbDictionary");
+  objects += group(281, 1);
+  objects += group(0, "ENDSEC");
+
+  // Written last so the seed is above every handle handed out
+  let header = group(0, "SECTION") + group(2, "HEADER");
+  header += group(9, "$ACADVER") + group(1, "AC1015");
+  header += group(9, "$HANDSEED") + group(5, nextHandle());
+  header += group(9, "$INSUNITS") + group(70, 4); // Millimetres
+  header += group(9, "$MEASUREMENT") + group(70, 1); // Metric
+  header += group(0, "ENDSEC");
+
+  const classes =
+    group(0, "SECTION") + group(2, "CLASSES") + group(0, "ENDSEC");
+
+  return header + classes + tables + blocks + body + objects + group(0, "EOF");
+}
+
+// Half-section drawing of a horn in millimetres: the wall and its mirror,
+// the optional outer wall and flange, and a centre line along the axis. The
+// vertical wall of non-round horns shares the drawing on its own layers.
+export function generateProfileDXF(drawing: ProfileDrawing): string {
+  const polylines: DxfPolyline[] = [
+    { layer: "HORN_INNER", points: drawing.inner },
+    { layer: "HORN_INNER_MIRROR", points: mirror(drawing.inner) },
+    { layer: "HORN_VERTICAL", points: drawing.vertical },
+    { layer: "HORN_VERTICAL_MIRROR", points: mirror(drawing.vertical) },
+    { layer: "HORN_OUTER", points: drawing.outer },
+    { layer: "HORN_OUTER_MIRROR", points: mirror(drawing.outer) },
+    { layer: "HORN_OUTER", points: drawing.verticalOuter },
+    { layer: "HORN_OUTER_MIRROR", points: mirror(drawing.verticalOuter) },
+  ];
+  const lines: DxfLine[] = [];
+
+  if (drawing.flange) {
+    // The outline is already closed, so drop its repeated last point
+    const outline = drawing.flange.outline.slice(0, -1);
+    polylines.push({ layer: "FLANGE", points: outline, closed: true });
+    polylines.push({ layer: "FLANGE", points: mirror(outline), closed: true });
+
+    // Bolt hole centre lines through the flange
+    const { thickness, boltCircleDiameter } = drawing.flange.options;
+    for (const side of [1, -1]) {
+      const y = (side * boltCircleDiameter) / 2;
+      lines.push({
+        layer: "AXIS",
+        from: { x: -thickness, y },
+        to: { x: 0, y },
+      });
+    }
+  }
+
+  let minX = 0;
+  let maxX = 0;
+  for (const polyline of polylines) {
+    for (const p of polyline.points) {
+      if (p.x < minX) minX = p.x;
+      if (p.x > maxX) maxX = p.x;
+    }
+  }
+  lines.push({ layer: "AXIS", from: { x: minX, y: 0 }, to: { x: maxX, y: 0 } });
+
+  return writeDXF(DXF_LAYERS, { polylines, lines });
+}
@@ -0,0 +1,270 @@
+import {
+  C_SOUND,
+  LeCleachHornCalculator,
+  type LeCleachParams,
+  type Point,
+} from "./lecleach";
+import { HornProfile, type ProfileGenerator } from "./profile";
+
+export type HornFamily =
+  | "lecleach"
+  | "tractrix"
+  | "exponential"
+  | "conical"
+  | "os";
+
+export const HORN_FAMILIES: { value: HornFamily; label: string }[] = [
+  { value: "lecleach", label: "Le Cléac'h" },
+  { value: "tractrix", label: "Tractrix" },
+  { value: "exponential", label: "Exponential" },
+  { value: "conical", label: "Conical" },
+  { value: "os", label: "Oblate Spheroidal (OS)" },
+];
+
+export interface FamilyOptions {
+  coneAngle: number; // Conical wall half-angle in degrees
+  coverageAngle: number; // OS waveguide asymptotic half-angle in degrees
+}
+
+// Mouth radius where the circumference equals the wavelength at fc (ka = 1).
+// This is the tractrix mouth by construction, and is used as the termination
+// for the other non-Le Cléac'h families so they can be compared like for like.
+function getMouthRadius(fc: number): number {
+  return C_SOUND / (2 * Math.PI * fc);
+}
+
+// These families are defined by their planar cross-section, so the area they
+// are designed for is exactly the area they achieve.
+function planarArea(
+  y: number
+): Pick<Point, "targetArea" | "capArea" | "residual" | "regime"> {
+  const area = Math.PI * y * y;
+  return { targetArea: area, capArea: area, residual: 0, regime: "physical" };
+}
+
+// Walk a profile given as radius r(x) and slope dr/dx, taking steps of
+// approximately `stepSize` along the wall, until the radius reaches rEnd.
+function traceProfile(
+  r0: number,
+  radiusAt: (x: number) => number,
+  slopeAt: (x: number) => number,
+  rEnd: number,
+  stepSize: number
+): Point[] {
+  const points: Point[] = [];
+  if (r0 <= 0) return points;
+
+  let x = 0;
+  let y = r0;
+  let l = 0;
+  let previousAngle = Math.atan(slopeAt(0)) * (180 / Math.PI);
+
+  points.push({
+    index: 0,
+    x,
+    y,
+    length: 0,
+    radius: y,
+    angle: previousAngle,
+    deltaAngle: 0,
+    ...planarArea(y),
+  });
+
+  // We limit max steps to avoid infinite loops
+  const MAX_STEPS = 20000;
+  for (let i = 0; i < MAX_STEPS && y < rEnd; i++) {
+    const theta = Math.atan(slopeAt(x));
+    const xNext = x + stepSize * Math.cos(theta);
+    const yNext = radiusAt(xNext);
+
+    l += Math.hypot(xNext - x, yNext - y);
+    x = xNext;
+    y = yNext;
+
+    const angle = Math.atan(slopeAt(x)) * (180 / Math.PI);
+    points.push({
+      index: i + 1,
+      x,
+      y,
+      length: l,
+      radius: y,
+      angle,
+      deltaAngle: angle - previousAngle,
+      ...planarArea(y),
+    });
+    previousAngle = angle;
+  }
+
+  return points;
+}
+
+// Classic exponential horn: S = S0 * exp(m * x) with planar wavefronts
+export class ExponentialHorn extends HornProfile {
+  private fc: number;
+  private d0: number;
+
+  constructor(fc: number, d0: number) {
+    super();
+    this.fc = fc;
+    this.d0 = d0;
+  }
+
+  public generateProfile(stepSize: number = 1.0): Point[] {
+    if (this.fc <= 0) return [];
+    const m = (4 * Math.PI * this.fc) / C_SOUND;
+    const r0 = this.d0 / 2;
+    const radiusAt = (x: number) => r0 * Math.exp((m * x) / 2);
+    return traceProfile(
+      r0,
+      radiusAt,
+      (x) => (radiusAt(x) * m) / 2,
+      getMouthRadius(this.fc),
+      stepSize
+    );
+  }
+}
+
+// Straight cone with a fixed wall half-angle
+export class ConicalHorn extends HornProfile {
+  private fc: number;
+  private d0: number;
+  private coneAngle: number;
+
+  constructor(fc: number, d0: number, coneAngle: number) {
+    super();
+    this.fc = fc;
+    this.d0 = d0;
+    this.coneAngle = coneAngle;
+  }
+
+  public generateProfile(stepSize: number = 1.0): Point[] {
+    if (this.fc <= 0 || this.coneAngle <= 0 || this.coneAngle >= 90) return [];
+    const slope = Math.tan((this.coneAngle * Math.PI) / 180);
+    const r0 = this.d0 / 2;
+    return traceProfile(
+      r0,
+      (x) => r0 + slope * x,
+      () => slope,
+      getMouthRadius(this.fc),
+      stepSize
+    );
+  }
+}
+
+// Oblate spheroidal waveguide (Geddes): r(x) = sqrt(r0^2 + tan^2(a) * x^2)
+export class OblateSpheroidalWaveguide extends HornProfile {
+  private fc: number;
+  private d0: number;
+  private coverageAngle: number;
+
+  constructor(fc: number, d0: number, coverageAngle: number) {
+    super();
+    this.fc = fc;
+    this.d0 = d0;
+    this.coverageAngle = coverageAngle;
+  }
+
+  public generateProfile(stepSize: number = 1.0): Point[] {
+    if (this.fc <= 0 || this.coverageAngle <= 0 || this.coverageAngle >= 90) {
+      return [];
+    }
+    const t2 = Math.pow(Math.tan((this.coverageAngle * Math.PI) / 180), 2);
+    const r0 = this.d0 / 2;
+    const radiusAt = (x: number) => Math.sqrt(r0 * r0 + t2 * x * x);
+    return traceProfile(
+      r0,
+      radiusAt,
+      (x) => (t2 * x) / radiusAt(x),
+      getMouthRadius(this.fc),
+      stepSize
+    );
+  }
+}
+
+// Tractrix horn with mouth radius a = c / (2 * PI * fc).
+// Parametrized by the wall angle theta: r = a * sin(theta) and
+// x = a * (ln(tan(theta / 2)) + cos(theta)), so the wall meets the mouth
+// plane at exactly 90 degrees.
+export class TractrixHorn extends HornProfile {
+  private fc: number;
+  private d0: number;
+
+  constructor(fc: number, d0: number) {
+    super();
+    this.fc = fc;
+    this.d0 = d0;
+  }
+
+  public generateProfile(stepSize: number = 1.0): Point[] {
+    const points: Point[] = [];
+    if (this.fc <= 0 || this.d0 <= 0) return points;
+
+    const a = getMouthRadius(this.fc);
+    const r0 = this.d0 / 2;
+    if (r0 >= a) return points;
+
+    const xAt = (theta: number) =>
+      a * (Math.log(Math.tan(theta / 2)) + Math.cos(theta));
+    const theta0 = Math.asin(r0 / a);
+    const x0 = xAt(theta0);
+    const HALF_PI = Math.PI / 2;
+
+    let theta = theta0;
+    let previousAngle = theta0 * (180 / Math.PI);
+    points.push({
+      index: 0,
+      x: 0,
+      y: r0,
+      length: 0,
+      radius: r0,
+      angle: previousAngle,
+      deltaAngle: 0,
+      ...planarArea(r0),
+    });
+
+    // Arc length ds = a * cot(theta) * dtheta, so a step of stepSize along
+    // the wall corresponds to dtheta = stepSize * tan(theta) / a.
+    const MAX_STEPS = 20000;
+    for (let i = 0; i < MAX_STEPS && theta < HALF_PI; i++) {
+      theta = Math.min(HALF_PI, theta + (stepSize * Math.tan(theta)) / a);
+      const y = a * Math.sin(theta);
+      const angle = theta * (180 / Math.PI);
+      points.push({
+        index: i + 1,
+        x: xAt(theta) - x0,
+        y,
+        length: a * Math.log(Math.sin(theta) / Math.sin(theta0)),
+        radius: y,
+        angle,
+        deltaAngle: angle - previousAngle,
+        ...planarArea(y),
+      });
+      previousAngle = angle;
+    }
+
+    return points;
+  }
+}
+
+export function createProfileGenerator(
+  family: HornFamily,
+  params: LeCleachParams,
+  options: FamilyOptions
+): ProfileGenerator {
+  switch (family) {
+    case "tractrix":
+      return new TractrixHorn(params.fc, params.d0);
+    case "exponential":
+      return new ExponentialHorn(params.fc, params.d0);
+    case "conical":
+      return new ConicalHorn(params.fc, params.d0, options.coneAngle);
+    case "os":
+      return new OblateSpheroidalWaveguide(
+        params.fc,
+        params.d0,
+        options.coverageAngle
+      );
+    default:
+      return new LeCleachHornCalculator(params);
+  }
+}
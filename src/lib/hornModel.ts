@@ -0,0 +1,336 @@
+import {
+  LeCleachHornCalculator,
+  type LeCleachParams,
+  type Point,
+} from "./lecleach";
+import {
+  createProfileGenerator,
+  type FamilyOptions,
+  type HornFamily,
+} from "./families";
+import {
+  buildFlange,
+  generateShellCSV,
+  offsetWall,
+  type Flange,
+  type ShellOptions,
+  type ShellWall,
+  type Vec2,
+} from "./shell";
+import { DEFAULT_CSV_OPTIONS, type CsvOptions } from "./csvExport";
+
+// Everything needed to generate one horn design
+export interface HornJob {
+  family: HornFamily;
+  params: LeCleachParams;
+  familyOptions: FamilyOptions;
+  tolerance: number; // Adaptive step chord deviation in mm (0 = fixed 0.5 mm steps)
+  shell: ShellOptions;
+}
+
+export type ChartPoint = Point & { negY: number };
+export type OutlinePoint = Vec2 & { negY: number };
+
+// Outer wall and throat flange, present when a wall thickness or flange is set
+export interface HornShell {
+  outerWall: Vec2[]; // Full resolution for export
+  verticalOuterWall: Vec2[];
+  outerChartData: OutlinePoint[]; // Downsampled for UI
+  verticalOuterChartData: OutlinePoint[];
+  flange: Flange | null;
+  flangeChartData: OutlinePoint[];
+  csv: string;
+}
+
+export interface HornDimensions {
+  mouthDiameter: number;
+  mouthHeight: number;
+  depth: number;
+  // Bounds of everything drawn: walls, outer wall and flange
+  minX: number;
+  maxX: number;
+  maxY: number;
+}
+
+// Profile, exports and chart data produced for a job
+export interface HornResult {
+  points: Point[]; // Full resolution for stats/export
+  verticalPoints: Point[];
+  acousticPoints: Point[]; // Equivalent round horn for acoustic models
+  chartData: ChartPoint[]; // Downsampled for UI
+  verticalChartData: ChartPoint[];
+  spiralData: Point[];
+  shell: HornShell | null;
+  dimensions: HornDimensions;
+  xDomain: number[];
+  yDomain: number[];
+}
+
+export type HornProgress = (stage: string, progress: number) => void;
+
+// Solver step settings for a given tolerance (mm). A tolerance of 0 keeps the
+// original fixed 0.5 mm steps; otherwise steps adapt up to 10 mm.
+export function getSolverSteps(tolerance: number) {
+  return tolerance > 0
+    ? { stepSize: 10, tolerance }
+    : { stepSize: 0.5, tolerance: undefined };
+}
+
+// Adaptive downsampling for the chart
+// We clip the tail (last N points) to preserve the rollback detail,
+// while downsampling the long initial body to save performance.
+function downsampleForChart<T extends Vec2>(
+  points: T[]
+): (T & { negY: number })[] {
+  const totalPoints = points.length;
+  const PRESERVED_TAIL_POINTS = 200; // Keep last 200 points (approx 200mm) full res for rollback detail
+  const targetBodyPoints = 300; // Target points for the main body
+
+  let chartData: T[] = [];
+
+  if (totalPoints <= PRESERVED_TAIL_POINTS + targetBodyPoints) {
+    // Small enough, keep all
+    chartData = points;
+  } else {
+    const bodyPoints = points.slice(0, totalPoints - PRESERVED_TAIL_POINTS);
+    const tailPoints = points.slice(totalPoints - PRESERVED_TAIL_POINTS);
+
+    const bodyStep = Math.ceil(bodyPoints.length / targetBodyPoints) || 1;
+    const downsampledBody = bodyPoints.filter(
+      (_, index) => index % bodyStep === 0
+    );
+
+    chartData = [...downsampledBody, ...tailPoints];
+  }
+
+  // Add mirror data for visualization
+  return chartData.map((p) => ({
+    ...p,
+    negY: -p.y,
+  }));
+}
+
+// Point CSV of a solved design. Non-round Le Cleac'h horns write both walls,
+// other designs a single spline. `job` must be the job that produced the
+// points, or the header would describe a different design.
+export function generateProfileCSV(
+  job: HornJob,
+  points: Point[],
+  verticalPoints: Point[],
+  options: CsvOptions = DEFAULT_CSV_OPTIONS
+): string {
+  const generator = createProfileGenerator(
+    job.family,
+    job.params,
+    job.familyOptions
+  );
+  if (
+    generator instanceof LeCleachHornCalculator &&
+    verticalPoints.length > 0
+  ) {
+    return generator.generateWallsCSV(
+      { horizontal: points, vertical: verticalPoints },
+      options
+    );
+  }
+  return generator.generateCSV(points, options);
+}
+
+const CHART_ASPECT = 2.0; // Width / height of the profile chart
+
+// Chart domains that show the bounds (mirrored about the axis) at true 1:1
+// scale in the profile chart's 2:1 frame
+export function chartDomains(minX: number, maxX: number, maxY: number) {
+  // Determine data bounding box dimensions
+  const dataWidth = maxX - minX;
+  const dataHeight = maxY * 2; // Full height (top to bottom)
+
+  // Center the view on the data
+  const centerX = (minX + maxX) / 2;
+
+  let renderWidth = dataWidth;
+  let renderHeight = dataHeight;
+
+  const dataAspect = dataWidth / dataHeight;
+
+  if (dataAspect > CHART_ASPECT) {
+    renderHeight = renderWidth / CHART_ASPECT;
+  } else {
+    renderWidth = renderHeight * CHART_ASPECT;
+  }
+
+  // Add 10% padding for aesthetics
+  renderWidth *= 1.1;
+  renderHeight *= 1.1;
+
+  const xDomain = [centerX - renderWidth / 2, centerX + renderWidth / 2];
+  const yDomain = [-renderHeight / 2, renderHeight / 2];
+
+  return { xDomain, yDomain };
+}
+
+export function computeHorn(
+  job: HornJob,
+  onProgress: HornProgress = () => {}
+): HornResult {
+  const generator = createProfileGenerator(
+    job.family,
+    job.params,
+    job.familyOptions
+  );
+
+  // 1. Heavy Calculation
+  // Adaptive steps follow the wall curvature, so the rollback keeps its detail
+  // while the long straight body is covered in a few hundred points.
+  // Non-axisymmetric horns get a horizontal (width) and vertical (height) wall.
+  // The closed-form families are cheap, so they always use fixed steps.
+  onProgress("Solving profile", 0);
+  const solverSteps =
+    job.family === "lecleach"
+      ? getSolverSteps(job.tolerance)
+      : getSolverSteps(0);
+  let calculatedPoints: Point[];
+  let verticalPoints: Point[] = [];
+  let acousticPoints: Point[]; // Equivalent round horn for acoustic models
+
+  if (
+    generator instanceof LeCleachHornCalculator &&
+    !generator.isAxisymmetric()
+  ) {
+    const walls = generator.generateWalls(
+      solverSteps.stepSize,
+      solverSteps.tolerance
+    );
+    calculatedPoints = walls.horizontal;
+    verticalPoints = walls.vertical;
+    acousticPoints = generator.generateProfile(
+      solverSteps.stepSize,
+      solverSteps.tolerance
+    );
+  } else {
+    calculatedPoints = generator.generateProfile(
+      solverSteps.stepSize,
+      solverSteps.tolerance
+    );
+    acousticPoints = calculatedPoints;
+  }
+
+  // Outer wall at the chosen thickness and the throat flange
+  onProgress("Building shell", 0.6);
+  const { wallThickness, flange: flangeOptions } = job.shell;
+  let shell: HornShell | null = null;
+  if (calculatedPoints.length > 0 && (wallThickness > 0 || flangeOptions)) {
+    const outerWall = offsetWall(calculatedPoints, wallThickness);
+    const verticalOuterWall = offsetWall(verticalPoints, wallThickness);
+    // Non-round throats get a round bore that clears the widest throat side
+    const throatRadius = Math.max(
+      calculatedPoints[0].y,
+      verticalPoints[0]?.y ?? 0
+    );
+    const flange = flangeOptions
+      ? buildFlange(throatRadius, flangeOptions)
+      : null;
+
+    const walls: ShellWall[] = [
+      {
+        label: verticalPoints.length > 0 ? "Horizontal" : "Horn",
+        inner: calculatedPoints,
+        outer: outerWall,
+        plane: "xy",
+      },
+    ];
+    if (verticalPoints.length > 0) {
+      walls.push({
+        label: "Vertical",
+        inner: verticalPoints,
+        outer: verticalOuterWall,
+        plane: "xz",
+      });
+    }
+
+    shell = {
+      outerWall,
+      verticalOuterWall,
+      outerChartData: downsampleForChart(outerWall),
+      verticalOuterChartData: downsampleForChart(verticalOuterWall),
+      flange,
+      flangeChartData: flange
+        ? flange.outline.map((p) => ({ ...p, negY: -p.y }))
+        : [],
+      csv: generateShellCSV(walls, flange),
+    };
+  }
+
+  onProgress("Measuring", 0.7);
+
+  // Calculate key dimensions based on bounding box
+  let minX = 0,
+    maxX = 0,
+    maxY = 0;
+
+  const allPoints: Vec2[] = [
+    ...calculatedPoints,
+    ...verticalPoints,
+    ...(shell?.outerWall ?? []),
+    ...(shell?.verticalOuterWall ?? []),
+    ...(shell?.flange?.outline ?? []),
+  ];
+  if (allPoints.length > 0) {
+    minX = allPoints[0].x;
+    maxX = allPoints[0].x;
+    maxY = allPoints[0].y;
+
+    for (const p of allPoints) {
+      if (p.x < minX) minX = p.x;
+      if (p.x > maxX) maxX = p.x;
+      if (p.y > maxY) maxY = p.y;
+    }
+  }
+
+  const lastPoint = calculatedPoints[calculatedPoints.length - 1];
+  const mouthDiameter = lastPoint ? lastPoint.y * 2 : 0;
+  const lastVerticalPoint = verticalPoints[verticalPoints.length - 1];
+  const mouthHeight = lastVerticalPoint
+    ? lastVerticalPoint.y * 2
+    : mouthDiameter;
+  // Depth of the horn itself; the outer wall and flange only widen the view
+  let physicalDepth = 0;
+  for (const p of [...calculatedPoints, ...verticalPoints]) {
+    if (p.x > physicalDepth) physicalDepth = p.x;
+  }
+
+  // 2. Prepare Visualization Data (Adaptive Downsampling)
+  onProgress("Preparing chart", 0.85);
+  const totalPoints = calculatedPoints.length;
+  const chartData = downsampleForChart(calculatedPoints);
+  const verticalChartData = downsampleForChart(verticalPoints);
+
+  // 3. Calculate Aspect Ratio Enforced Domains
+  const { xDomain, yDomain } = chartDomains(minX, maxX, maxY);
+
+  // 4. Downsample for Radial Chart (needs more resolution than linear, but less than full)
+  const spiralStep = Math.ceil(totalPoints / 1000) || 1;
+  const spiralData = calculatedPoints.filter(
+    (_, index) => index % spiralStep === 0 || index === totalPoints - 1
+  );
+
+  return {
+    points: calculatedPoints, // Full resolution for stats/export
+    verticalPoints,
+    acousticPoints,
+    chartData, // Downsampled for UI
+    verticalChartData,
+    spiralData,
+    shell,
+    dimensions: {
+      mouthDiameter,
+      mouthHeight,
+      depth: physicalDepth,
+      minX,
+      maxX,
+      maxY,
+    },
+    xDomain,
+    yDomain,
+  };
+}
@@ -0,0 +1,236 @@
+import { C_SOUND, type Point } from "./lecleach";
+
+// Hornresp models a horn as up to four segments between the areas S1..S5,
+// each with its own flare: conical, exponential or parabolic (area linear
+// in length).
+export type FlareType = "Con" | "Exp" | "Par";
+
+export interface HornSegment {
+  s1: number; // Start area (cm^2)
+  s2: number; // End area (cm^2)
+  length: number; // cm
+  flare: FlareType;
+  cutoff: number; // Exponential flare cutoff (Hz), 0 for other flares
+}
+
+export interface SegmentFit {
+  segments: HornSegment[];
+  maxError: number; // Worst relative area error over the profile
+  rmsError: number;
+}
+
+// Placeholder driver entered in Hornresp's traditional driver parameters
+export interface HornrespDriver {
+  sd: number; // Diaphragm area (cm^2)
+  bl: number; // Force factor (Tm)
+  cms: number; // Suspension compliance (m/N)
+  rms: number; // Mechanical resistance (Ns/m)
+  mmd: number; // Diaphragm mass (g)
+  le: number; // Voice coil inductance (mH)
+  re: number; // Voice coil resistance (ohm)
+}
+
+// A generic 1" exit compression driver; replace with the real driver in
+// Hornresp or before export
+export const DEFAULT_HORNRESP_DRIVER: HornrespDriver = {
+  sd: 8.0,
+  bl: 7.5,
+  cms: 5e-5,
+  rms: 1.0,
+  mmd: 0.5,
+  le: 0.05,
+  re: 6.0,
+};
+
+const FLARES: FlareType[] = ["Con", "Exp", "Par"];
+const CANDIDATES = 40; // Possible segment boundaries along the profile
+
+// Area at fraction u (0..1) along a segment from s1 to s2
+function flareArea(flare: FlareType, s1: number, s2: number, u: number) {
+  switch (flare) {
+    case "Con": {
+      const k = Math.sqrt(s2 / s1) - 1;
+      return s1 * (1 + k * u) * (1 + k * u);
+    }
+    case "Exp":
+      return s1 * Math.pow(s2 / s1, u);
+    case "Par":
+      return s1 + (s2 - s1) * u;
+  }
+}
+
+// Best flare between two profile points, with its summed squared log-area
+// error (relative error that treats throat and mouth alike)
+function fitSegment(
+  points: Point[],
+  from: number,
+  to: number
+): { flare: FlareType; cost: number } {
+  const a = points[from];
+  const b = points[to];
+  const span = b.length - a.length;
+  let best = { flare: FLARES[0], cost: Infinity };
+  for (const flare of FLARES) {
+    let cost = 0;
+    for (let i = from + 1; i < to; i++) {
+      const u = (points[i].length - a.length) / span;
+      const area = flareArea(flare, a.targetArea, b.targetArea, u);
+      cost += Math.log(area / points[i].targetArea) ** 2;
+    }
+    if (cost < best.cost) best = { flare, cost };
+  }
+  return best;
+}
+
+// Fit the area law (target area against path length) with a fixed number of
+// segments. Boundaries are chosen from evenly spaced candidate points by
+// dynamic programming, so the total squared error is minimal over that grid.
+export function fitHornrespSegments(
+  points: Point[],
+  segmentCount = 4
+): SegmentFit {
+  const empty = { segments: [], maxError: 0, rmsError: 0 };
+  if (points.length < 2) return empty;
+
+  const stations: number[] = [];
+  const steps = Math.min(CANDIDATES, points.length - 1);
+  for (let k = 0; k <= steps; k++) {
+    const index = Math.round((k * (points.length - 1)) / steps);
+    if (index !== stations[stations.length - 1]) stations.push(index);
+  }
+  const count = Math.min(segmentCount, stations.length - 1);
+
+  // cost[j][k]: best error of the first k stations split into j segments
+  const n = stations.length;
+  const fits = new Map<string, { flare: FlareType; cost: number }>();
+  const segmentFit = (i: number, k: number) => {
+    const key = `${i}:${k}`;
+    let fit = fits.get(key);
+    if (!fit) {
+      fit = fitSegment(points, stations[i], stations[k]);
+      fits.set(key, fit);
+    }
+    return fit;
+  };
+  const cost: number[][] = [];
+  const from: number[][] = [];
+  for (let j = 0; j <= count; j++) {
+    cost.push(new Array(n).fill(Infinity));
+    from.push(new Array(n).fill(-1));
+  }
+  cost[0][0] = 0;
+  for (let j = 1; j <= count; j++) {
+    for (let k = j; k < n; k++) {
+      for (let i = j - 1; i < k; i++) {
+        if (!isFinite(cost[j - 1][i])) continue;
+        const c = cost[j - 1][i] + segmentFit(i, k).cost;
+        if (c < cost[j][k]) {
+          cost[j][k] = c;
+          from[j][k] = i;
+        }
+      }
+    }
+  }
+
+  const bounds = [n - 1];
+  for (let j = count; j > 0; j--) bounds.unshift(from[j][bounds[0]]);
+
+  const segments: HornSegment[] = [];
+  let maxError = 0;
+  let sumSquares = 0;
+  for (let s = 0; s < count; s++) {
+    const a = points[stations[bounds[s]]];
+    const b = points[stations[bounds[s + 1]]];
+    const { flare } = segmentFit(bounds[s], bounds[s + 1]);
+    const length = b.length - a.length;
+    for (let i = stations[bounds[s]]; i <= stations[bounds[s + 1]]; i++) {
+      const u = (points[i].length - a.length) / length;
+      const area = flareArea(flare, a.targetArea, b.targetArea, u);
+      const error = area / points[i].targetArea - 1;
+      maxError = Math.max(maxError, Math.abs(error));
+      sumSquares += error * error;
+    }
+    // Exponential flare constant m = ln(S2/S1)/L gives fc = m c / (4 pi)
+    const m = Math.log(b.targetArea / a.targetArea) / length;
+    segments.push({
+      s1: a.targetArea / 100,
+      s2: b.targetArea / 100,
+      length: length / 10,
+      flare,
+      cutoff: flare === "Exp" ? (m * C_SOUND) / (4 * Math.PI) : 0,
+    });
+  }
+
+  return {
+    segments,
+    maxError,
+    rmsError: Math.sqrt(sumSquares / points.length),
+  };
+}
+
+const fixed = (value: number) => value.toFixed(2);
+
+// Hornresp writes compliance as e.g. 5.00E-05
+const scientific = (value: number) =>
+  value
+    .toExponential(2)
+    .toUpperCase()
+    .replace(/E([+-])(\d)$/, "E$10$2");
+
+// Hornresp record in its import text format (CRLF line endings). Unused
+// segments are written as zero areas; the driver sits at S1 with no throat
+// or rear chamber.
+export function generateHornrespFile(
+  fit: SegmentFit,
+  driver: HornrespDriver,
+  comment: string
+): string {
+  const lines = [
+    "ID=1.00",
+    "",
+    `Comment=${comment}`,
+    "",
+    "|RADIATION, SOURCE AND MOUTH PARAMETER VALUES:",
+    "",
+    "Ang=2.0 x Pi",
+    "Eg=2.83",
+    "Rg=0.00",
+    "Cir=0.00",
+    "",
+    "|HORN PARAMETER VALUES:",
+    "",
+  ];
+  for (let s = 0; s < 4; s++) {
+    const segment = fit.segments[s];
+    lines.push(
+      `S${s + 1}=${fixed(segment?.s1 ?? 0)}`,
+      `S${s + 2}=${fixed(segment?.s2 ?? 0)}`,
+      `${segment?.flare ?? "Con"}=${fixed(segment?.length ?? 0)}`,
+      `F${s + 1}${s + 2}=${fixed(segment?.cutoff ?? 0)}`
+    );
+  }
+  lines.push(
+    "",
+    "|TRADITIONAL DRIVER PARAMETER VALUES:",
+    "",
+    `Sd=${fixed(driver.sd)}`,
+    `Bl=${fixed(driver.bl)}`,
+    `Cms=${scientific(driver.cms)}`,
+    `Rms=${fixed(driver.rms)}`,
+    `Mmd=${fixed(driver.mmd)}`,
+    `Le=${fixed(driver.le)}`,
+    `Re=${fixed(driver.re)}`,
+    "Nd=1",
+    "",
+    "|CHAMBER PARAMETER VALUES:",
+    "",
+    "Vrc=0.00",
+    "Lrc=0.00",
+    "Fr=0.00",
+    "Tal1=0.00",
+    "Vtc=0.00",
+    "Atc=0.00",
+    ""
+  );
+  return lines.join("\r\n");
+}
@@ -0,0 +1,219 @@
+import { C_SOUND, type Point } from "./lecleach";
+
+export interface ImpedanceOptions {
+  fMin?: number; // Lowest frequency in Hz
+  fMax?: number; // Highest frequency in Hz
+  count?: number; // Number of log-spaced frequencies
+  segments?: number; // Number of transmission-line segments
+}
+
+export interface ImpedancePoint {
+  frequency: number; // Hz
+  resistance: number; // Re(Z_throat) / (rho * c / S0)
+  reactance: number; // Im(Z_throat) / (rho * c / S0)
+  transfer: number; // |U_mouth / U_throat| in dB
+}
+
+// Minimal complex arithmetic for the ABCD chain
+interface Complex {
+  re: number;
+  im: number;
+}
+
+const add = (a: Complex, b: Complex): Complex => ({
+  re: a.re + b.re,
+  im: a.im + b.im,
+});
+
+const mul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+});
+
+const div = (a: Complex, b: Complex): Complex => {
+  const d = b.re * b.re + b.im * b.im;
+  return {
+    re: (a.re * b.re + a.im * b.im) / d,
+    im: (a.im * b.re - a.re * b.im) / d,
+  };
+};
+
+// Bessel J0 and J1, polynomial approximations (Abramowitz & Stegun 9.4)
+function besselJ0(x: number): number {
+  const ax = Math.abs(x);
+  if (ax < 8) {
+    const y = x * x;
+    const n =
+      57568490574.0 +
+      y *
+        (-13362590354.0 +
+          y *
+            (651619640.7 +
+              y * (-11214424.18 + y * (77392.33017 + y * -184.9052456))));
+    const d =
+      57568490411.0 +
+      y *
+        (1029532985.0 +
+          y * (9494680.718 + y * (59272.64853 + y * (267.8532712 + y))));
+    return n / d;
+  }
+  const z = 8 / ax;
+  const y = z * z;
+  const xx = ax - 0.785398164;
+  const p =
+    1 +
+    y *
+      (-0.1098628627e-2 +
+        y * (0.2734510407e-4 + y * (-0.2073370639e-5 + y * 0.2093887211e-6)));
+  const q =
+    -0.1562499995e-1 +
+    y *
+      (0.1430488765e-3 +
+        y * (-0.6911147651e-5 + y * (0.7621095161e-6 - y * 0.934935152e-7)));
+  return (
+    Math.sqrt(0.636619772 / ax) * (Math.cos(xx) * p - z * Math.sin(xx) * q)
+  );
+}
+
+function besselJ1(x: number): number {
+  const ax = Math.abs(x);
+  if (ax < 8) {
+    const y = x * x;
+    const n =
+      x *
+      (72362614232.0 +
+        y *
+          (-7895059235.0 +
+            y *
+              (242396853.1 +
+                y * (-2972611.439 + y * (15704.4826 + y * -30.16036606)))));
+    const d =
+      144725228442.0 +
+      y *
+        (2300535178.0 +
+          y * (18583304.74 + y * (99447.43394 + y * (376.9991397 + y))));
+    return n / d;
+  }
+  const z = 8 / ax;
+  const y = z * z;
+  const xx = ax - 2.356194491;
+  const p =
+    1 +
+    y *
+      (0.183105e-2 +
+        y * (-0.3516396496e-4 + y * (0.2457520174e-5 + y * -0.240337019e-6)));
+  const q =
+    0.04687499995 +
+    y *
+      (-0.2002690873e-3 +
+        y * (0.8449199096e-5 + y * (-0.88228987e-6 + y * 0.105787412e-6)));
+  const result =
+    Math.sqrt(0.636619772 / ax) * (Math.cos(xx) * p - z * Math.sin(xx) * q);
+  return x < 0 ? -result : result;
+}
+
+// Struve H1, Aarts & Janssen (2003) approximation
+function struveH1(x: number): number {
+  if (x === 0) return 0;
+  return (
+    2 / Math.PI -
+    besselJ0(x) +
+    (16 / Math.PI - 5) * (Math.sin(x) / x) +
+    (12 - 36 / Math.PI) * ((1 - Math.cos(x)) / (x * x))
+  );
+}
+
+// Radiation impedance of a rigid piston in an infinite baffle, normalized to
+// rho * c / S (so it tends to 1 + 0j at high frequency).
+function pistonRadiation(ka: number): Complex {
+  const x = 2 * ka;
+  if (x < 1e-6) return { re: 0, im: 0 };
+  return {
+    re: 1 - (2 * besselJ1(x)) / x,
+    im: (2 * struveH1(x)) / x,
+  };
+}
+
+// Wavefront area along the path length. `radius` is the equivalent planar
+// radius of the area law for every horn family.
+function areaAt(points: Point[], l: number): number {
+  let lo = 0;
+  let hi = points.length - 1;
+  if (l <= points[0].length) return Math.PI * points[0].radius ** 2;
+  if (l >= points[hi].length) return Math.PI * points[hi].radius ** 2;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].length <= l) lo = mid;
+    else hi = mid;
+  }
+  const a = points[lo];
+  const b = points[hi];
+  const t = (l - a.length) / (b.length - a.length || 1);
+  const r = a.radius + t * (b.radius - a.radius);
+  return Math.PI * r * r;
+}
+
+// Throat impedance from a segmented transmission-line (Webster horn) model.
+// The profile is cut into short cylindrical segments of equal length along the
+// wall path, each one a lossless line with characteristic impedance rho*c/S.
+// The chain is terminated by the baffled-piston radiation impedance of the
+// mouth and evaluated from mouth to throat.
+export function computeThroatImpedance(
+  points: Point[],
+  options: ImpedanceOptions = {}
+): ImpedancePoint[] {
+  const { fMin = 20, fMax = 20000, count = 200, segments = 200 } = options;
+  if (points.length < 2) return [];
+
+  const totalLength = points[points.length - 1].length;
+  const segmentLength = totalLength / segments;
+
+  // Segment areas, sampled at each segment midpoint
+  const areas: number[] = [];
+  for (let i = 0; i < segments; i++) {
+    areas.push(areaAt(points, (i + 0.5) * segmentLength));
+  }
+  const throatArea = Math.PI * points[0].radius ** 2;
+  const mouthArea = Math.PI * points[points.length - 1].radius ** 2;
+  const mouthRadius = Math.sqrt(mouthArea / Math.PI);
+
+  const result: ImpedancePoint[] = [];
+  const ratio = Math.pow(fMax / fMin, 1 / (count - 1));
+
+  for (let n = 0; n < count; n++) {
+    const frequency = fMin * Math.pow(ratio, n);
+    const k = (2 * Math.PI * frequency) / C_SOUND; // rad/mm
+
+    // Impedances are in units of rho * c (per mm^2)
+    const radiation = pistonRadiation(k * mouthRadius);
+    let z: Complex = {
+      re: radiation.re / mouthArea,
+      im: radiation.im / mouthArea,
+    };
+
+    // Volume velocity ratio U_mouth / U_throat accumulated segment by segment
+    let transfer: Complex = { re: 1, im: 0 };
+
+    for (let i = segments - 1; i >= 0; i--) {
+      const zc = 1 / areas[i];
+      const cos = Math.cos(k * segmentLength);
+      const sin = Math.sin(k * segmentLength);
+
+      // [p_in, U_in] = [[cos, j zc sin], [j sin / zc, cos]] [p_out, U_out]
+      // U_in / U_out = j sin / zc * Z_out + cos
+      const uRatio = add(mul({ re: 0, im: sin / zc }, z), { re: cos, im: 0 });
+      const pRatio = add(mul({ re: cos, im: 0 }, z), { re: 0, im: zc * sin });
+      z = div(pRatio, uRatio);
+      transfer = div(transfer, uRatio);
+    }
+
+    result.push({
+      frequency,
+      resistance: z.re * throatArea,
+      reactance: z.im * throatArea,
+      transfer: 20 * Math.log10(Math.hypot(transfer.re, transfer.im)),
+    });
+  }
+
+  return result;
+}
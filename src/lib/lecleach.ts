@@ -1,10 +1,56 @@
+import { HornProfile } from "./profile";
+import {
+  DEFAULT_CSV_OPTIONS,
+  formatProfileCSV,
+  type CsvOptions,
+} from "./csvExport";
+
+export type CrossSection = "round" | "elliptical" | "rectangular";
+
+// How the wall continues once the physical expansion rate peaks past 90 deg:
+// - "physical": keep solving the area law all the way to roundOver
+// - "clothoid": Euler spiral, curvature grows linearly with path length
+// - "circular": constant-radius lip
+// - "spiral": accelerated spiral, curvature grows geometrically
+export type RollbackMode = "physical" | "clothoid" | "circular" | "spiral";
+
+// Where the wall stops. roundOver still caps the rollback in every mode.
+// - "angle": when the wall angle reaches roundOver
+// - "diameter": when the mouth reaches stopDiameter (the width if non-round)
+// - "depth": when the wall reaches stopDepth along the axis
+// - "length": after stopLength of wall
+export type TerminationMode = "angle" | "diameter" | "depth" | "length";
+
 export interface LeCleachParams {
   fc: number; // Cutoff frequency in Hz
   T: number; // Expansion factor (usually 0.5 to 2.0)
   d0: number; // Throat diameter in mm
   roundOver: number; // Rollback angle limit in degrees (e.g., 180)
+  crossSection?: CrossSection; // Throat/mouth shape (default "round")
+  throatWidth?: number; // Throat width in mm (non-round sections)
+  throatHeight?: number; // Throat height in mm (non-round sections)
+  mouthAspect?: number; // Target mouth width/height ratio (defaults to throat aspect)
+  rollbackMode?: RollbackMode; // Rollback behaviour (default "spiral")
+  spiralGrowth?: number; // Spiral curvature growth in % per mm of path (default 1.0025)
+  clothoidRate?: number; // Clothoid curvature growth in deg/mm^2 (default 0.005)
+  lipRadius?: number; // Circular lip radius in mm (0 = match curvature at handover)
+  termination?: TerminationMode; // Stop condition (default "angle")
+  stopDiameter?: number; // Mouth diameter to stop at in mm ("diameter")
+  stopDepth?: number; // Axial depth to stop at in mm ("depth")
+  stopLength?: number; // Wall path length to stop at in mm ("length")
+}
+
+// Termination limit on one wall: the radius, axial position or path length
+// it stops at
+interface WallLimit {
+  measure: "radius" | "depth" | "length";
+  value: number;
 }
 
+// Which part of the solver produced a point: the area-law solution, or the
+// rollback curve (spiral, clothoid or circular lip) that abandons the law.
+export type SolverRegime = "physical" | "spiral";
+
 export interface Point {
   index: number;
   x: number;
@@ -14,14 +60,28 @@ export interface Point {
   radius: number; // Theoretical expansion radius
   angle: number; // Wall angle in degrees
   deltaAngle: number; // Change in angle from previous point (degrees)
+  targetArea: number; // Wavefront area required by the area law (mm^2)
+  capArea: number; // Achieved wavefront area at this point (mm^2)
+  residual: number; // Relative area error (capArea - targetArea) / targetArea
+  regime: SolverRegime;
+}
+
+// Horizontal (width) and vertical (height) walls of a non-axisymmetric horn
+export interface HornWalls {
+  horizontal: Point[];
+  vertical: Point[];
 }
 
 export const C_SOUND = 343200; // Speed of sound in mm/s (dry air approx 20C)
 
-export class LeCleachHornCalculator {
+// Solver steps per wall. We limit max steps to avoid infinite loops.
+export const MAX_STEPS = 20000;
+
+export class LeCleachHornCalculator extends HornProfile {
   private params: LeCleachParams;
 
   constructor(params: LeCleachParams) {
+    super();
     this.params = params;
   }
 
@@ -30,30 +90,202 @@ export class LeCleachHornCalculator {
     return (4 * Math.PI * this.params.fc) / C_SOUND;
   }
 
+  private getCrossSection(): CrossSection {
+    return this.params.crossSection ?? "round";
+  }
+
+  // Throat width and height in mm (both equal d0 for a round throat)
+  private getThroatSize(): { width: number; height: number } {
+    if (this.getCrossSection() === "round") {
+      return { width: this.params.d0, height: this.params.d0 };
+    }
+    return {
+      width: this.params.throatWidth ?? this.params.d0,
+      height: this.params.throatHeight ?? this.params.d0,
+    };
+  }
+
+  // Ratio between the section area and the product of its half-axes:
+  // PI for circles/ellipses, 4 for rectangles.
+  private getShapeFactor(): number {
+    return this.getCrossSection() === "rectangular" ? 4 : Math.PI;
+  }
+
+  // Planar throat area in mm^2
+  private getThroatArea(): number {
+    const { width, height } = this.getThroatSize();
+    return (this.getShapeFactor() * width * height) / 4;
+  }
+
+  // Width/height ratio of the throat and of the requested mouth
+  private getAspects(): { throat: number; mouth: number } {
+    const { width, height } = this.getThroatSize();
+    const throat = width / height;
+    return { throat, mouth: this.params.mouthAspect ?? throat };
+  }
+
+  public getRollbackMode(): RollbackMode {
+    return this.params.rollbackMode ?? "spiral";
+  }
+
+  public getTermination(): TerminationMode {
+    return this.params.termination ?? "angle";
+  }
+
+  // Limit for the selected termination, or null to stop at roundOver only.
+  // `scale` turns the mouth width into the size of the wall being solved.
+  private getWallLimit(scale: number): WallLimit | null {
+    switch (this.getTermination()) {
+      case "diameter":
+        return {
+          measure: "radius",
+          value: ((this.params.stopDiameter ?? 0) / 2) * scale,
+        };
+      case "depth":
+        return { measure: "depth", value: this.params.stopDepth ?? 0 };
+      case "length":
+        return { measure: "length", value: this.params.stopLength ?? 0 };
+      default:
+        return null;
+    }
+  }
+
+  public isAxisymmetric(): boolean {
+    const { throat, mouth } = this.getAspects();
+    return this.getCrossSection() === "round" && throat === 1 && mouth === 1;
+  }
+
   // Calculate the target Area at path length 'l' using Hyperbolic-Exponential law
   // S = S0 * (cosh(m * l / 2) + T * sinh(m * l / 2))^2
   private getTargetArea(l: number): number {
     const m = this.getM();
-    const r0 = this.params.d0 / 2;
-    const s0 = Math.PI * r0 * r0; // Planar throat area
+    const s0 = this.getThroatArea(); // Planar throat area
     const term = (m * l) / 2;
     const expansionFactor = Math.cosh(term) + this.params.T * Math.sinh(term);
     return s0 * expansionFactor * expansionFactor;
   }
 
-  public generateProfile(stepSize: number = 1.0): Point[] {
+  // Axisymmetric profile. For non-round sections this is the equivalent round
+  // horn with the same throat area (and therefore the same area law).
+  // Passing a tolerance (mm) switches to adaptive steps of at most stepSize.
+  public generateProfile(stepSize: number = 1.0, tolerance?: number): Point[] {
+    const { width, height } = this.getThroatSize();
+    if (width <= 0 || height <= 0) return [];
+
+    // A mouth of the stop width and the mouth aspect has the same area as a
+    // round mouth this much smaller
+    const r0 = Math.sqrt(this.getThroatArea() / Math.PI);
+    const scale = Math.sqrt(
+      this.getShapeFactor() / (Math.PI * this.getAspects().mouth)
+    );
+    return this.solveWall(
+      r0,
+      (l) => this.getTargetArea(l),
+      stepSize,
+      tolerance,
+      this.getWallLimit(scale)
+    );
+  }
+
+  // Separate horizontal and vertical wall profiles for rectangular/elliptical
+  // horns. The section half-axes follow a(l) = a0 * (S/S0)^w and
+  // b(l) = b0 * (S/S0)^(1 - w), so shapeFactor * a * b equals the target
+  // area at every path length. The weight w splits the flare between the two
+  // walls: a slower flaring wall behaves like a lower cutoff and grows a
+  // larger mouth, which is how the requested mouth aspect is reached.
+  public generateWalls(stepSize: number = 1.0, tolerance?: number): HornWalls {
+    const { width, height } = this.getThroatSize();
+    if (width <= 0 || height <= 0 || this.getM() === 0) {
+      return { horizontal: [], vertical: [] };
+    }
+
+    const s0 = this.getThroatArea();
+    const solve = (w: number): HornWalls => ({
+      horizontal: this.solveWall(
+        width / 2,
+        (l) =>
+          Math.PI *
+          Math.pow(width / 2, 2) *
+          Math.pow(this.getTargetArea(l) / s0, 2 * w),
+        stepSize,
+        tolerance,
+        this.getWallLimit(1)
+      ),
+      vertical: this.solveWall(
+        height / 2,
+        (l) =>
+          Math.PI *
+          Math.pow(height / 2, 2) *
+          Math.pow(this.getTargetArea(l) / s0, 2 * (1 - w)),
+        stepSize,
+        tolerance,
+        this.getWallLimit(1 / this.getAspects().mouth)
+      ),
+    });
+
+    // Mouth size scales roughly with the inverse of the flare rate, so
+    // w = 1 / (1 + aspect) is a good first guess. Refine it with a few
+    // secant steps on the log of the achieved mouth aspect.
+    const target = Math.log(this.getAspects().mouth);
+    const error = (walls: HornWalls) => {
+      const h = walls.horizontal[walls.horizontal.length - 1];
+      const v = walls.vertical[walls.vertical.length - 1];
+      return h && v ? Math.log(h.y / v.y) - target : 0;
+    };
+
+    let w0 = 1 / (1 + this.getAspects().mouth);
+    let walls = solve(w0);
+    let e0 = error(walls);
+    let w1 = w0 - 0.05 * Math.sign(e0);
+    for (let iter = 0; iter < 4 && Math.abs(e0) > 0.005; iter++) {
+      const candidate = solve(w1);
+      const e1 = error(candidate);
+      if (Math.abs(e1) < Math.abs(e0)) walls = candidate;
+      if (e1 === e0) break;
+      const next = w1 - (e1 * (w1 - w0)) / (e1 - e0);
+      w0 = w1;
+      e0 = e1;
+      w1 = Math.min(0.95, Math.max(0.05, next));
+    }
+
+    return walls;
+  }
+
+  // Solve a single wall starting at radius y0 so that the spherical-cap
+  // wavefront area matches targetArea(l) along the path length.
+  //
+  // With a tolerance the step adapts to the local curvature: each step is the
+  // longest chord whose sagitta (h^2 * curvature / 8) stays below the
+  // tolerance and whose angle change stays below MAX_STEP_ANGLE, capped at
+  // stepSize. Without a tolerance every step is exactly stepSize.
+  //
+  // The tolerance only bounds how far each chord strays from the curve. Each
+  // chord takes the wall angle at its far end, so the error per step grows
+  // with its length and adds up along the wall: long adaptive steps leave the
+  // profile millimetres away from a fine fixed-step solution.
+  //
+  // A limit ends the wall exactly on the given radius, depth or path length
+  // if it comes before roundOver.
+  private solveWall(
+    y0: number,
+    targetArea: (l: number) => number,
+    stepSize: number,
+    tolerance?: number,
+    limit: WallLimit | null = null
+  ): Point[] {
     const points: Point[] = [];
     const m = this.getM();
 
     // Safety check
-    if (m === 0 || this.params.d0 <= 0) return points;
+    if (m === 0 || y0 <= 0 || stepSize <= 0) return points;
 
     // Initial state
     let l = 0;
     let x = 0;
-    let y = this.params.d0 / 2; // Start at throat radius
+    let y = y0; // Start at throat radius
 
     // Initial point
+    const throatArea = targetArea(0);
     points.push({
       index: 0,
       x,
@@ -62,94 +294,128 @@ export class LeCleachHornCalculator {
       radius: y,
       angle: 0,
       deltaAngle: 0,
+      targetArea: throatArea,
+      capArea: Math.PI * y * y,
+      residual: (Math.PI * y * y - throatArea) / throatArea,
+      regime: "physical",
     });
 
-    // We limit max steps to avoid infinite loops
-    const MAX_STEPS = 20000;
-    let previousAngle = 0; // Keep track of angle to prevent jitter or help solver
-    let previousDelta = 0; // Keep track of rate of change to detect peak growth
+    // How far a state is past the limit (>= 0 once reached)
+    const pastLimit = (px: number, py: number, pl: number): number => {
+      if (!limit) return -Infinity;
+      const value =
+        limit.measure === "radius" ? py : limit.measure === "depth" ? px : pl;
+      return value - limit.value;
+    };
+    if (pastLimit(x, y, l) >= 0) return points;
 
-    // SPIRAL EXTENSION STATE
-    // We detector when the physical expansion rate peaks (usually around 90-100 deg)
-    // and switch to forced spiral mode to ensure progressive growth if roundOver > 180.
+    let previousAngle = 0; // Keep track of angle to prevent jitter or help solver
+    let previousCurvature = 0; // Keep track of rate of change to detect peak growth
+
+    // ADAPTIVE STEP STATE
+    const isAdaptive = tolerance !== undefined && tolerance > 0;
+    const MIN_STEP = 0.01; // mm
+    const MAX_STEP_ANGLE = Math.PI / 180; // 1 degree per step at most
+    const MAX_STEP_GROWTH = 1.5; // Limit how fast the step can lengthen
+    let h = isAdaptive ? Math.min(stepSize, 1.0) : stepSize;
+
+    // ROLLBACK EXTENSION STATE
+    // We detect when the physical expansion rate peaks (usually around 90-100 deg)
+    // and hand over to the selected rollback mode to ensure progressive growth if
+    // roundOver > 180. The "physical" mode never hands over.
+    const rollbackMode = this.getRollbackMode();
     let isSpiraling = false;
-    let baseDeltaTheta = 0; // The rate of angle change at the moment of transition
-    let spiralStepCount = 0;
+    let baseCurvature = 0; // Curvature (rad/mm) at the moment of transition
+    let rollbackLength = 0; // Path length travelled since the handover
     const SPIRAL_DETECTION_THRESHOLD_ANGLE = 90; // degrees - start looking for deceleration after this
 
+    // Curvature (rad/mm) of the rollback curve after `s` mm past the handover
+    const rollbackCurvature = (s: number): number => {
+      switch (rollbackMode) {
+        case "clothoid": {
+          const rate = ((this.params.clothoidRate ?? 0.005) * Math.PI) / 180;
+          return baseCurvature + rate * s;
+        }
+        case "circular": {
+          const lipRadius = this.params.lipRadius ?? 0;
+          return lipRadius > 0 ? 1 / lipRadius : baseCurvature;
+        }
+        default: {
+          // ACCELERATED VISUAL SPIRAL
+          // To mimic the "tightening" look of the JMLC/Fusion reference, we accelerate the curvature.
+          // We use geometric compounding (exponential growth) of the angle increment.
+          // This causes the curve to curl tighter and tighter naturally.
+          // The default 1.0025 %/mm equals the original 0.5% growth per 0.5 mm step.
+          const growth = 1 + (this.params.spiralGrowth ?? 1.0025) / 100;
+          return baseCurvature * Math.pow(growth, s);
+        }
+      }
+    };
+
     for (let i = 0; i < MAX_STEPS; i++) {
+      // Choose the step length from the current curvature
+      if (isAdaptive) {
+        const curvature = Math.abs(
+          isSpiraling ? rollbackCurvature(rollbackLength) : previousCurvature
+        );
+        let next = stepSize;
+        if (curvature > 0) {
+          next = Math.min(
+            next,
+            Math.sqrt((8 * tolerance) / curvature),
+            MAX_STEP_ANGLE / curvature
+          );
+        }
+        h = Math.max(MIN_STEP, Math.min(next, h * MAX_STEP_GROWTH));
+      }
+
       // Increment acoustic path length
-      const l_next = l + stepSize;
+      let l_next = l + h;
 
       // 1. Calculate Target Surface Area for this length
-      const S_target = this.getTargetArea(l_next);
+      let S_target = targetArea(l_next);
 
       // 2. Determine Wall Angle (theta)
       let theta = 0;
 
       if (isSpiraling) {
-        // ACCELERATED VISUAL SPIRAL
-        // To mimic the "tightening" look of the JMLC/Fusion reference, we accelerate the curvature.
-        // We use geometric compounding (exponential growth) of the angle increment.
-        // This causes the curve to curl tighter and tighter naturally.
-
-        spiralStepCount++;
-
-        // Growth factor per step (0.5%)
-        // currentDelta = baseDelta * (1.005 ^ steps)
-        const growthRate = 1.005;
-        const currentDelta =
-          baseDeltaTheta * Math.pow(growthRate, spiralStepCount);
-
-        theta = previousAngle + currentDelta;
+        rollbackLength += h;
+        theta = previousAngle + rollbackCurvature(rollbackLength) * h;
       } else {
         // Standard Physical Solver
         // Equation to solve:
         // f(theta) = 2 * PI * (y_prev + step * sin(theta))^2 - S_target * (1 + cos(theta)) = 0
-
-        // We use a Binary Search for stability.
-        // Range: [0, 2PI] (Relaxed monotonic constraint to prevent stall at numerical dips)
-        let minTheta = 0;
-        let maxTheta = 2 * Math.PI;
-
-        // Iteration for solver
-        for (let iter = 0; iter < 50; iter++) {
-          theta = (minTheta + maxTheta) / 2;
-
-          // Proposed new radius at this theta
-          const y_candidate = y + stepSize * Math.sin(theta);
-
-          // Area check
-          const S_geometry =
-            (2 * Math.PI * y_candidate * y_candidate) / (1 + Math.cos(theta));
-
-          // If Geometry Area < Target Area, we need to OPEN more
-          if (S_geometry < S_target) {
-            minTheta = theta;
-          } else {
-            maxTheta = theta;
-          }
-        }
-
-        // Check if we should switch to forced spiral mode
+        // Seeded with the angle extrapolated from the previous curvature.
+        theta = this.solveAngle(
+          y,
+          h,
+          S_target,
+          previousAngle + previousCurvature * h
+        );
+
+        // Check if we should switch to the rollback curve
         // Logic: If user wants a full rollback (>180), we switch when we detect the
         // expansion rate starting to slow down (dip in growth), ensuring it always grows.
         const currentDeg = theta * (180 / Math.PI);
-        const currentDelta = theta - previousAngle;
+        const currentCurvature = (theta - previousAngle) / h;
 
         const isDecelerating =
-          currentDelta < previousDelta &&
+          currentCurvature < previousCurvature &&
           currentDeg > SPIRAL_DETECTION_THRESHOLD_ANGLE;
 
-        // Enable accelerated spiral for any deep rollback (>100 degrees) to prevent
+        // Enable the rollback curve for any deep rollback (>100 degrees) to prevent
         // solver stall/deceleration at large angles (like 179.9 vs 180).
-        if (isDecelerating && this.params.roundOver > 100) {
+        if (
+          isDecelerating &&
+          this.params.roundOver > 100 &&
+          rollbackMode !== "physical"
+        ) {
           isSpiraling = true;
-          // Use the PREVIOUS (peak) delta as the handover point to maintain momentum
-          baseDeltaTheta = previousDelta;
-          // Recalculate this step using the spiral logic immediately to prevent the dip
-          theta = previousAngle + baseDeltaTheta;
-          // We don't increment spiralStepCount here yet, the next loop will start compounding
+          // Use the PREVIOUS (peak) curvature as the handover point to maintain momentum
+          baseCurvature = previousCurvature;
+          // Recalculate this step using the rollback curve immediately to prevent the dip.
+          // For the spiral and clothoid this is exactly the peak rate.
+          theta = previousAngle + rollbackCurvature(0) * h;
         }
       }
 
@@ -158,7 +424,7 @@ export class LeCleachHornCalculator {
 
       // Update tracking for next step
       if (!isSpiraling) {
-        previousDelta = theta - previousAngle;
+        previousCurvature = (theta - previousAngle) / h;
       }
 
       // 3. Stop Conditions
@@ -171,21 +437,43 @@ export class LeCleachHornCalculator {
         break;
       }
 
-      // b. Safety: Stop if spiral curls into the axis (y < 0)
+      // b. The area law has a singularity at 180 deg (1 + cos(theta) -> 0), so the
+      // physical solution can never pass it. Stop instead of stalling there.
+      if (!isSpiraling && thetaDeg >= 180 - EPSILON) {
+        break;
+      }
+
+      // c. Safety: Stop if spiral curls into the axis (y < 0)
       if (isSpiraling) {
-        const nextY = y + stepSize * Math.sin(theta);
+        const nextY = y + h * Math.sin(theta);
         if (nextY <= 0) break;
       }
 
+      // d. Termination limit: cut the last chord short so the wall ends
+      // exactly on it
+      let dx = h * Math.cos(theta);
+      let dy = h * Math.sin(theta);
+      const before = pastLimit(x, y, l);
+      const after = pastLimit(x + dx, y + dy, l_next);
+      const reachedLimit = after >= 0;
+      if (reachedLimit) {
+        const t = -before / (after - before);
+        dx *= t;
+        dy *= t;
+        l_next = l + t * h;
+        S_target = targetArea(l_next);
+      }
+
       // 4. Update State
-      const dx = stepSize * Math.cos(theta);
-      const dy = stepSize * Math.sin(theta);
 
       x += dx;
       y += dy;
       l = l_next;
       previousAngle = theta;
 
+      // Spherical cap through the new point, normal to the wall
+      const S_cap = (2 * Math.PI * y * y) / (1 + Math.cos(theta));
+
       points.push({
         index: i + 1,
         x,
@@ -194,32 +482,88 @@ export class LeCleachHornCalculator {
         radius: Math.sqrt(S_target / Math.PI), // Equivalent planar radius for reference
         angle: thetaDeg,
         deltaAngle: deltaDeg,
+        targetArea: S_target,
+        capArea: S_cap,
+        residual: (S_cap - S_target) / S_target,
+        regime: isSpiraling ? "spiral" : "physical",
       });
+
+      if (reachedLimit) break;
     }
 
     return points;
   }
 
-  public generateCSV(points: Point[]): string {
-    let csv = "X (cm),Y (cm),Z (cm)\n";
-    points.forEach((p) => {
-      // Convert mm to cm by dividing by 10
-      csv += `${(p.x / 10).toFixed(4)},${(p.y / 10).toFixed(4)},0.0000\n`;
-    });
-    return csv;
-  }
-
-  public generateLog(points: Point[]): string {
-    let csv =
-      "Index,Length (mm),Radius (mm),Angle (deg),Delta Angle (deg),Growth (%)\n";
-    points.forEach((p) => {
-      const growth = (p.deltaAngle / (p.angle - p.deltaAngle || 1)) * 100;
-      csv += `${p.index},${p.length.toFixed(2)},${p.y.toFixed(
-        2
-      )},${p.angle.toFixed(3)},${p.deltaAngle.toFixed(4)},${growth.toFixed(
-        4
-      )}\n`;
-    });
-    return csv;
+  // Root of f(theta) = 2 * PI * (y + h * sin(theta))^2 - S * (1 + cos(theta))
+  // on [0, PI], where the spherical cap through the next point has area S.
+  // f(PI) > 0 always, so [0, PI] brackets the root whenever f(0) < 0.
+  // Safeguarded Newton: take the Newton step from the seed when it stays
+  // inside the bracket, otherwise bisect. Converges in a handful of iterations.
+  private solveAngle(y: number, h: number, S: number, seed: number): number {
+    const f = (t: number) => {
+      const r = y + h * Math.sin(t);
+      return 2 * Math.PI * r * r - S * (1 + Math.cos(t));
+    };
+    const df = (t: number) => {
+      const r = y + h * Math.sin(t);
+      return 4 * Math.PI * r * h * Math.cos(t) + S * Math.sin(t);
+    };
+
+    let lo = 0;
+    let hi = Math.PI;
+    if (f(lo) >= 0) return lo;
+
+    let theta = seed > lo && seed < hi ? seed : (lo + hi) / 2;
+    for (let iter = 0; iter < 60; iter++) {
+      const value = f(theta);
+      if (value < 0) lo = theta;
+      else hi = theta;
+
+      const slope = df(theta);
+      let next = slope !== 0 ? theta - value / slope : NaN;
+      if (!(next > lo && next < hi)) next = (lo + hi) / 2;
+
+      if (Math.abs(next - theta) < 1e-13) return next;
+      theta = next;
+    }
+    return theta;
+  }
+
+  // Record the rollback mode as a comment line above the coordinates. Many
+  // CAD importers reject anything before the data, so it is opt-in and only
+  // written when a wall actually turns back past 90 degrees.
+  private csvComment(walls: Point[][], options: CsvOptions): string {
+    const rolledBack = walls.some((points) => points.some((p) => p.angle > 90));
+    return options.notes && rolledBack
+      ? `# Rollback mode: ${this.getRollbackMode()}\n`
+      : "";
+  }
+
+  public generateCSV(
+    points: Point[],
+    options: CsvOptions = DEFAULT_CSV_OPTIONS
+  ): string {
+    return (
+      this.csvComment([points], options) + super.generateCSV(points, options)
+    );
+  }
+
+  // Both walls in one file: by default the horizontal wall lies in the XY
+  // plane and the vertical wall in the XZ plane. A blank line separates the
+  // two splines.
+  public generateWallsCSV(
+    walls: HornWalls,
+    options: CsvOptions = DEFAULT_CSV_OPTIONS
+  ): string {
+    return (
+      this.csvComment([walls.horizontal, walls.vertical], options) +
+      formatProfileCSV(
+        [
+          { points: walls.horizontal, vertical: false },
+          { points: walls.vertical, vertical: true },
+        ],
+        options
+      )
+    );
   }
 }
@@ -0,0 +1,536 @@
+import earcut from "earcut";
+import type { Flange, Vec2 } from "./shell";
+
+export type MeshSplit = "none" | "axial" | "quarters";
+
+export interface MeshOptions {
+  segments: number; // Facets per full turn
+  split: MeshSplit;
+  axialParts: number; // Number of parts for the axial split
+  keys: boolean; // Tab and notch alignment keys on quarter shell seams
+  keyAngle?: number; // Key size in degrees, to whole facets (default 5)
+  simplify?: number; // Max chord deviation when thinning the profile (mm)
+}
+
+// One printable body. The horn axis is the Z axis, so parts print upright.
+export interface MeshPart {
+  name: string;
+  positions: number[]; // x, y, z triplets (mm)
+  indices: number[]; // Triangles, counter-clockwise seen from outside
+}
+
+// Douglas-Peucker thinning: the profile is sampled far more densely than a
+// printer can resolve, and every section point becomes a full ring of facets.
+function simplify(points: Vec2[], tolerance: number): Vec2[] {
+  if (points.length < 3 || tolerance <= 0) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const a = points[first];
+    const b = points[last];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy) || 1;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const p = points[i];
+      const distance = Math.abs(dy * (p.x - a.x) - dx * (p.y - a.y)) / length;
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+function polygonArea(polygon: Vec2[]): number {
+  let sum = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    sum += (polygon[j].x - polygon[i].x) * (polygon[j].y + polygon[i].y);
+  }
+  return sum / 2;
+}
+
+// Drop repeated points, including the closing one
+function dedupe(polygon: Vec2[]): Vec2[] {
+  const result: Vec2[] = [];
+  for (const p of polygon) {
+    const last = result[result.length - 1];
+    if (!last || Math.hypot(p.x - last.x, p.y - last.y) > 1e-9) result.push(p);
+  }
+  while (
+    result.length > 1 &&
+    Math.hypot(
+      result[0].x - result[result.length - 1].x,
+      result[0].y - result[result.length - 1].y
+    ) <= 1e-9
+  ) {
+    result.pop();
+  }
+  return result;
+}
+
+// Closed wall section in the (axial, radial) plane: along the inner wall from
+// throat to mouth, then back along the outer wall. Counter-clockwise.
+function buildSection(inner: Vec2[], outer: Vec2[], tolerance: number): Vec2[] {
+  const section = dedupe([
+    ...simplify(inner, tolerance),
+    ...simplify(outer, tolerance).reverse(),
+  ]).map((p) => ({ x: p.x, y: Math.max(0, p.y) }));
+  return polygonArea(section) < 0 ? section.reverse() : section;
+}
+
+// Sutherland-Hodgman clip of a polygon to minX <= x <= maxX. Where the
+// section crosses a cut more than once the result is joined by edges along
+// the cut line, which revolve into the cut faces.
+function clipAxial(polygon: Vec2[], minX: number, maxX: number): Vec2[] {
+  const clip = (input: Vec2[], inside: (p: Vec2) => boolean, x: number) => {
+    const output: Vec2[] = [];
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i];
+      const previous = input[(i + input.length - 1) % input.length];
+      const crossing = (): Vec2 => {
+        const t = (x - previous.x) / (current.x - previous.x);
+        return { x, y: previous.y + t * (current.y - previous.y) };
+      };
+      if (inside(current)) {
+        if (!inside(previous)) output.push(crossing());
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(crossing());
+      }
+    }
+    return output;
+  };
+  let result = polygon;
+  if (Number.isFinite(minX)) result = clip(result, (p) => p.x >= minX, minX);
+  if (Number.isFinite(maxX)) result = clip(result, (p) => p.x <= maxX, maxX);
+  return dedupe(result);
+}
+
+class MeshBuilder {
+  positions: number[] = [];
+  indices: number[] = [];
+
+  addVertex(x: number, y: number, z: number): number {
+    this.positions.push(x, y, z);
+    return this.positions.length / 3 - 1;
+  }
+
+  // Triangulate a counter-clockwise polygon; `flip` reverses the winding
+  addPolygon(
+    rings: Vec2[][],
+    vertexIndex: (ring: number, point: number) => number,
+    flip: boolean
+  ) {
+    const data: number[] = [];
+    const holes: number[] = [];
+    const lookup: number[] = [];
+    rings.forEach((ring, r) => {
+      if (r > 0) holes.push(data.length / 2);
+      ring.forEach((p, i) => {
+        data.push(p.x, p.y);
+        lookup.push(vertexIndex(r, i));
+      });
+    });
+    const triangles = earcut(data, holes);
+    for (let t = 0; t < triangles.length; t += 3) {
+      const a = triangles[t];
+      let b = triangles[t + 1];
+      let c = triangles[t + 2];
+      const cross =
+        (data[2 * b] - data[2 * a]) * (data[2 * c + 1] - data[2 * a + 1]) -
+        (data[2 * b + 1] - data[2 * a + 1]) * (data[2 * c] - data[2 * a]);
+      if (cross < 0 !== flip) [b, c] = [c, b];
+      this.indices.push(lookup[a], lookup[b], lookup[c]);
+    }
+  }
+
+  part(name: string): MeshPart {
+    return { name, positions: this.positions, indices: this.indices };
+  }
+}
+
+// Revolve a counter-clockwise section about the horn axis, from phi0 to phi1
+// (radians). A full turn wraps onto itself; a partial one is closed by the
+// section at both ends.
+function revolve(
+  mesh: MeshBuilder,
+  section: Vec2[],
+  phi0: number,
+  phi1: number,
+  segments: number
+) {
+  const n = section.length;
+  if (n < 3) return;
+  const span = phi1 - phi0;
+  const full = Math.abs(span - 2 * Math.PI) < 1e-9;
+  const steps = Math.max(1, Math.round((segments * span) / (2 * Math.PI)));
+  const rings = full ? steps : steps + 1;
+
+  const base = mesh.positions.length / 3;
+  for (let j = 0; j < rings; j++) {
+    const phi = phi0 + (span * j) / steps;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    for (const p of section) mesh.addVertex(p.y * cos, p.y * sin, p.x);
+  }
+  const index = (i: number, j: number) => base + (j % rings) * n + (i % n);
+
+  for (let j = 0; j < steps; j++) {
+    for (let i = 0; i < n; i++) {
+      const a0 = index(i, j);
+      const b0 = index(i + 1, j);
+      const a1 = index(i, j + 1);
+      const b1 = index(i + 1, j + 1);
+      mesh.indices.push(a0, b0, b1, a0, b1, a1);
+    }
+  }
+
+  if (!full) {
+    // The section is counter-clockwise in (x, r), which faces +phi
+    mesh.addPolygon([section], (_, i) => index(i, 0), true);
+    mesh.addPolygon([section], (_, i) => index(i, steps), false);
+  }
+}
+
+// Nudge a cut off any section point, so every crossing is a new point
+function clearOf(section: Vec2[], x: number): number {
+  while (section.some((p) => Math.abs(p.x - x) < 1e-6)) x += 1e-4;
+  return x;
+}
+
+// Revolve a counter-clockwise section through `steps` facets from phi0, with
+// the band between the two axial cuts turned `keySteps` facets further. That
+// leaves a tab on the far seam and a notch on the near one. The cuts are
+// added to the section as points and everything shares one angular grid, so
+// the band and the parts either side share their vertices: the sector is a
+// single closed surface rather than three bodies pressed together.
+function revolveKeyed(
+  mesh: MeshBuilder,
+  section: Vec2[],
+  phi0: number,
+  span: number,
+  steps: number,
+  keySteps: number,
+  cutFrom: number,
+  cutTo: number
+) {
+  const cuts = [clearOf(section, cutFrom), clearOf(section, cutTo)];
+
+  // The section with its cut crossings, and which cut each point lies on
+  const ring: Vec2[] = [];
+  const onCut: number[] = [];
+  section.forEach((a, i) => {
+    const b = section[(i + 1) % section.length];
+    ring.push(a);
+    onCut.push(-1);
+    const crossings = cuts
+      .map((x, cut) => ({ cut, t: (x - a.x) / (b.x - a.x) }))
+      .filter(({ t }) => t > 0 && t < 1)
+      .sort((p, q) => p.t - q.t);
+    for (const { cut, t } of crossings) {
+      ring.push({ x: cuts[cut], y: a.y + t * (b.y - a.y) });
+      onCut.push(cut);
+    }
+  });
+  const n = ring.length;
+
+  // Edge i runs from ring[i] to the next point and lies wholly before the
+  // first cut (0), in the band (1) or after the second cut (2). Each part
+  // fills its own range of grid angles.
+  const region = ring.map((a, i) => {
+    const x = (a.x + ring[(i + 1) % n].x) / 2;
+    return x < cuts[0] ? 0 : x < cuts[1] ? 1 : 2;
+  });
+  const range = [
+    [0, steps],
+    [keySteps, steps + keySteps],
+    [0, steps],
+  ];
+
+  // Along a cut, the section is inside between alternate crossings
+  const partner = new Array<number>(n).fill(-1);
+  const chords: [number, number, number][] = []; // Cut, lower and upper point
+  for (const cut of [0, 1]) {
+    const points = ring
+      .map((_, i) => i)
+      .filter((i) => onCut[i] === cut)
+      .sort((i, j) => ring[i].y - ring[j].y);
+    for (let k = 0; k + 1 < points.length; k += 2) {
+      partner[points[k]] = points[k + 1];
+      partner[points[k + 1]] = points[k];
+      chords.push([cut, points[k], points[k + 1]]);
+    }
+  }
+
+  const total = steps + keySteps;
+  const vertices = new Map<number, number>();
+  const vertex = (i: number, j: number) => {
+    const key = i * (total + 1) + j;
+    let index = vertices.get(key);
+    if (index === undefined) {
+      const phi = phi0 + (span * j) / steps;
+      const p = ring[i];
+      index = mesh.addVertex(p.y * Math.cos(phi), p.y * Math.sin(phi), p.x);
+      vertices.set(key, index);
+    }
+    return index;
+  };
+
+  for (let i = 0; i < n; i++) {
+    const next = (i + 1) % n;
+    const [from, to] = range[region[i]];
+    for (let j = from; j < to; j++) {
+      const a0 = vertex(i, j);
+      const b0 = vertex(next, j);
+      const a1 = vertex(i, j + 1);
+      const b1 = vertex(next, j + 1);
+      mesh.indices.push(a0, b0, b1, a0, b1, a1);
+    }
+  }
+
+  // Side faces: each piece of the section between the cuts, traced along
+  // its edges and across the cuts, closes its part at both ends
+  const traced = new Array<boolean>(n).fill(false);
+  for (let start = 0; start < n; start++) {
+    if (traced[start]) continue;
+    const piece: number[] = [];
+    let i = start;
+    do {
+      piece.push(i);
+      traced[i] = true;
+      let next = (i + 1) % n;
+      if (onCut[next] >= 0 && region[next] !== region[start]) {
+        piece.push(next);
+        next = partner[next];
+      }
+      i = next;
+    } while (i !== start && i >= 0 && piece.length <= n);
+    const points = piece.map((k) => ring[k]);
+    const [from, to] = range[region[start]];
+    mesh.addPolygon([points], (_, k) => vertex(piece[k], from), true);
+    mesh.addPolygon([points], (_, k) => vertex(piece[k], to), false);
+  }
+
+  // Cut faces, where only one side of a cut is filled: the tab sticking out
+  // of the band and the notch it leaves. Turning from the lower to the upper
+  // point faces downstream (+x).
+  for (const [cut, lower, upper] of chords) {
+    const [beforeFrom, beforeTo] = range[cut];
+    const [afterFrom, afterTo] = range[cut + 1];
+    for (let j = 0; j < total; j++) {
+      const before = j >= beforeFrom && j < beforeTo;
+      const after = j >= afterFrom && j < afterTo;
+      if (before === after) continue;
+      const a0 = vertex(lower, j);
+      const b0 = vertex(upper, j);
+      const a1 = vertex(lower, j + 1);
+      const b1 = vertex(upper, j + 1);
+      if (before) mesh.indices.push(a0, b0, b1, a0, b1, a1);
+      else mesh.indices.push(a0, b1, b0, a0, a1, b1);
+    }
+  }
+}
+
+// True if the part is one closed, consistently wound surface, as slicers
+// expect: with vertices at the same position merged, every edge is used
+// once in each direction and all triangles are connected.
+export function isClosedManifold(part: MeshPart): boolean {
+  const ids = new Map<string, number>();
+  const weld: number[] = [];
+  for (let i = 0; i < part.positions.length; i += 3) {
+    const key = part.positions
+      .slice(i, i + 3)
+      .map((v) => Math.round(v * 1e6))
+      .join(",");
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(key, id);
+    }
+    weld.push(id);
+  }
+
+  const count = ids.size;
+  const edges = new Map<number, number>();
+  const parent = Array.from({ length: count }, (_, i) => i);
+  const root = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  for (let t = 0; t < part.indices.length; t += 3) {
+    for (let e = 0; e < 3; e++) {
+      const a = weld[part.indices[t + e]];
+      const b = weld[part.indices[t + ((e + 1) % 3)]];
+      if (a === b) continue;
+      const key = a * count + b;
+      edges.set(key, (edges.get(key) ?? 0) + 1);
+      parent[root(a)] = root(b);
+    }
+  }
+  if (edges.size === 0) return false;
+
+  for (const [key, uses] of edges) {
+    const a = Math.floor(key / count);
+    const b = key % count;
+    if (uses !== 1 || edges.get(b * count + a) !== 1) return false;
+  }
+  const shells = new Set<number>();
+  for (const key of edges.keys()) shells.add(root(key % count));
+  return shells.size === 1;
+}
+
+function circle(
+  cx: number,
+  cy: number,
+  radius: number,
+  count: number,
+  clockwise: boolean
+): Vec2[] {
+  const points: Vec2[] = [];
+  for (let k = 0; k < count; k++) {
+    const phi = ((clockwise ? -2 : 2) * Math.PI * k) / count;
+    points.push({
+      x: cx + radius * Math.cos(phi),
+      y: cy + radius * Math.sin(phi),
+    });
+  }
+  return points;
+}
+
+// The flange as an extruded ring with its bolt holes, from the driver face
+// (z = -thickness) to the throat plane (z = 0)
+function buildFlangePart(flange: Flange, segments: number): MeshPart {
+  const mesh = new MeshBuilder();
+  const { outerDiameter, thickness, holeDiameter } = flange.options;
+  const bore = flange.outline[0].y;
+  const rings = [
+    circle(0, 0, outerDiameter / 2, segments, false),
+    circle(0, 0, bore, segments, true),
+    ...flange.boltHoles.map((hole) =>
+      circle(hole.y, hole.z, holeDiameter / 2, 24, true)
+    ),
+  ];
+
+  const top: number[][] = [];
+  const bottom: number[][] = [];
+  for (const ring of rings) {
+    top.push(ring.map((p) => mesh.addVertex(p.x, p.y, 0)));
+    bottom.push(ring.map((p) => mesh.addVertex(p.x, p.y, -thickness)));
+  }
+
+  mesh.addPolygon(rings, (r, i) => top[r][i], false);
+  mesh.addPolygon(rings, (r, i) => bottom[r][i], true);
+
+  // Outer ring is counter-clockwise and holes clockwise, so the right-hand
+  // side of every edge faces out of the solid
+  rings.forEach((ring, r) => {
+    for (let i = 0; i < ring.length; i++) {
+      const next = (i + 1) % ring.length;
+      mesh.indices.push(
+        bottom[r][i],
+        bottom[r][next],
+        top[r][next],
+        bottom[r][i],
+        top[r][next],
+        top[r][i]
+      );
+    }
+  });
+
+  return mesh.part("Flange");
+}
+
+// Revolve the horn wall into closed, printable bodies. The section between
+// the inner and outer wall is turned about the axis; a zero wall thickness
+// has no volume, so callers must supply an outer wall.
+//
+// Axial splitting cuts the horn into parts of equal depth. Quarter shells are
+// 90° sectors; with keys, a band around mid-depth is turned by an extra
+// keyAngle (to whole facets), leaving a tab on one seam of each quarter and a
+// matching notch on the other. The flange, if any, is always a separate part.
+export function buildHornMesh(
+  inner: Vec2[],
+  outer: Vec2[],
+  flange: Flange | null,
+  options: MeshOptions
+): MeshPart[] {
+  const parts: MeshPart[] = [];
+  const section = buildSection(inner, outer, options.simplify ?? 0.01);
+  const segments = Math.max(3, Math.round(options.segments));
+
+  if (section.length >= 3) {
+    let minX = Infinity;
+    let maxX = -Infinity;
+    for (const p of section) {
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+    }
+
+    if (options.split === "axial") {
+      const count = Math.max(1, Math.round(options.axialParts));
+      for (let k = 0; k < count; k++) {
+        const from = k === 0 ? -Infinity : minX + ((maxX - minX) * k) / count;
+        const to =
+          k === count - 1 ? Infinity : minX + ((maxX - minX) * (k + 1)) / count;
+        const mesh = new MeshBuilder();
+        revolve(mesh, clipAxial(section, from, to), 0, 2 * Math.PI, segments);
+        parts.push(mesh.part(`Segment ${k + 1}`));
+      }
+    } else if (options.split === "quarters") {
+      const steps = Math.max(1, Math.round(segments / 4));
+      const keySteps = options.keys
+        ? Math.min(
+            steps - 1,
+            Math.max(1, Math.round(((options.keyAngle ?? 5) / 90) * steps))
+          )
+        : 0;
+      const bandFrom = minX + (maxX - minX) * 0.4;
+      const bandTo = minX + (maxX - minX) * 0.6;
+      for (let k = 0; k < 4; k++) {
+        const phi0 = (k * Math.PI) / 2;
+        const name = `Quarter ${k + 1}`;
+        let part: MeshPart | null = null;
+        if (keySteps > 0) {
+          const mesh = new MeshBuilder();
+          revolveKeyed(
+            mesh,
+            section,
+            phi0,
+            Math.PI / 2,
+            steps,
+            keySteps,
+            bandFrom,
+            bandTo
+          );
+          part = mesh.part(name);
+          // A section the cuts can't split cleanly would print as a broken
+          // shell, so it gets a plain quarter instead
+          if (!isClosedManifold(part)) part = null;
+        }
+        if (!part) {
+          const mesh = new MeshBuilder();
+          revolve(mesh, section, phi0, phi0 + Math.PI / 2, segments);
+          part = mesh.part(name);
+        }
+        parts.push(part);
+      }
+    } else {
+      const mesh = new MeshBuilder();
+      revolve(mesh, section, 0, 2 * Math.PI, segments);
+      parts.push(mesh.part("Horn"));
+    }
+  }
+
+  if (flange) parts.push(buildFlangePart(flange, segments));
+  return parts;
+}
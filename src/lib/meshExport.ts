@@ -0,0 +1,115 @@
+import type { MeshPart } from "./mesh";
+import { createZip } from "./zip";
+
+// Binary STL with every part in one file. STL has no units; slicers assume
+// millimetres, which is what the mesh uses.
+export function generateSTL(parts: MeshPart[], title = "Horn"): ArrayBuffer {
+  const count = parts.reduce((sum, part) => sum + part.indices.length / 3, 0);
+  const buffer = new ArrayBuffer(84 + count * 50);
+  const view = new DataView(buffer);
+
+  const header = new TextEncoder().encode(title.slice(0, 80));
+  new Uint8Array(buffer, 0, 80).set(header);
+  view.setUint32(80, count, true);
+
+  let pos = 84;
+  for (const { positions: p, indices } of parts) {
+    for (let t = 0; t < indices.length; t += 3) {
+      const a = indices[t] * 3;
+      const b = indices[t + 1] * 3;
+      const c = indices[t + 2] * 3;
+      const ux = p[b] - p[a];
+      const uy = p[b + 1] - p[a + 1];
+      const uz = p[b + 2] - p[a + 2];
+      const vx = p[c] - p[a];
+      const vy = p[c + 1] - p[a + 1];
+      const vz = p[c + 2] - p[a + 2];
+      const nx = uy * vz - uz * vy;
+      const ny = uz * vx - ux * vz;
+      const nz = ux * vy - uy * vx;
+      const length = Math.hypot(nx, ny, nz) || 1;
+
+      view.setFloat32(pos, nx / length, true);
+      view.setFloat32(pos + 4, ny / length, true);
+      view.setFloat32(pos + 8, nz / length, true);
+      pos += 12;
+      for (const v of [a, b, c]) {
+        view.setFloat32(pos, p[v], true);
+        view.setFloat32(pos + 4, p[v + 1], true);
+        view.setFloat32(pos + 8, p[v + 2], true);
+        pos += 12;
+      }
+      view.setUint16(pos, 0, true);
+      pos += 2;
+    }
+  }
+
+  return buffer;
+}
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// 3MF package with one object per part, in millimetres
+export function generate3MF(parts: MeshPart[], title = "Horn"): Uint8Array {
+  const chunks: string[] = [];
+  chunks.push(
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">\n',
+    `  <metadata name="Title">${escapeXml(title)}</metadata>\n`,
+    "  <resources>\n"
+  );
+  parts.forEach((part, index) => {
+    chunks.push(
+      `    <object id="${index + 1}" name="${escapeXml(
+        part.name
+      )}" type="model">\n`,
+      "      <mesh>\n        <vertices>\n"
+    );
+    const p = part.positions;
+    for (let v = 0; v < p.length; v += 3) {
+      chunks.push(
+        `          <vertex x="${p[v].toFixed(4)}" y="${p[v + 1].toFixed(
+          4
+        )}" z="${p[v + 2].toFixed(4)}"/>\n`
+      );
+    }
+    chunks.push("        </vertices>\n        <triangles>\n");
+    const t = part.indices;
+    for (let i = 0; i < t.length; i += 3) {
+      chunks.push(
+        `          <triangle v1="${t[i]}" v2="${t[i + 1]}" v3="${t[i + 2]}"/>\n`
+      );
+    }
+    chunks.push("        </triangles>\n      </mesh>\n    </object>\n");
+  });
+  chunks.push("  </resources>\n  <build>\n");
+  parts.forEach((_, index) =>
+    chunks.push(`    <item objectid="${index + 1}"/>\n`)
+  );
+  chunks.push("  </build>\n</model>\n");
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: "[Content_Types].xml", data: encoder.encode(CONTENT_TYPES) },
+    { name: "_rels/.rels", data: encoder.encode(RELATIONSHIPS) },
+    { name: "3D/3dmodel.model", data: encoder.encode(chunks.join("")) },
+  ]);
+}
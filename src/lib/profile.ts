@@ -0,0 +1,48 @@
+import type { Point } from "./lecleach";
+import {
+  DEFAULT_CSV_OPTIONS,
+  formatProfileCSV,
+  type CsvOptions,
+} from "./csvExport";
+
+// Common interface for every horn family: a single wall profile as a list of
+// points ordered by path length, starting at the throat on the axis origin.
+export interface ProfileGenerator {
+  generateProfile(stepSize?: number, tolerance?: number): Point[];
+  generateCSV(points: Point[], options?: CsvOptions): string;
+  generateLog(points: Point[]): string;
+}
+
+// Shared export logic, so every family produces identical file formats
+export abstract class HornProfile implements ProfileGenerator {
+  public abstract generateProfile(
+    stepSize?: number,
+    tolerance?: number
+  ): Point[];
+
+  // XYZ point list for CAD splines; the defaults give centimetres with the
+  // horn axis on X
+  public generateCSV(
+    points: Point[],
+    options: CsvOptions = DEFAULT_CSV_OPTIONS
+  ): string {
+    return formatProfileCSV([{ points, vertical: false }], options);
+  }
+
+  public generateLog(points: Point[]): string {
+    let csv =
+      "Index,Length (mm),Radius (mm),Angle (deg),Delta Angle (deg),Growth (%)," +
+      "Target Area (mm2),Cap Area (mm2),Residual (%),Regime\n";
+    points.forEach((p) => {
+      const growth = (p.deltaAngle / (p.angle - p.deltaAngle || 1)) * 100;
+      csv += `${p.index},${p.length.toFixed(2)},${p.y.toFixed(
+        2
+      )},${p.angle.toFixed(3)},${p.deltaAngle.toFixed(4)},${growth.toFixed(
+        4
+      )},${p.targetArea.toFixed(1)},${p.capArea.toFixed(1)},${(
+        p.residual * 100
+      ).toFixed(4)},${p.regime}\n`;
+    });
+    return csv;
+  }
+}
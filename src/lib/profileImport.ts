@@ -0,0 +1,291 @@
+import type { CsvAxis, CsvUnits } from "./csvExport";
+import type { Vec2 } from "./shell";
+
+export type ImportUnits = "auto" | CsvUnits;
+export type ImportAxis = "auto" | CsvAxis;
+
+// How the units of an import were settled
+export type UnitSource = "manual" | "header" | "scale";
+
+export interface ImportedProfile {
+  name: string;
+  points: Vec2[]; // mm, throat at x = 0, radius positive
+  units: CsvUnits;
+  unitSource: UnitSource;
+  axis: CsvAxis; // Column that carried the horn axis
+  radialAxis: CsvAxis;
+  rows: number; // Data rows read
+  skippedBlocks: number; // Later blocks (mirrored half, other walls) ignored
+  reversed: boolean; // File ran mouth to throat
+}
+
+export type ProfileImportResult =
+  | { ok: true; profile: ImportedProfile }
+  | { ok: false; error: string };
+
+export interface ProfileDeviation {
+  maxRadial: number; // Largest radius difference, imported - current (mm)
+  maxAt: number; // Axial position of that difference (mm)
+  rmsRadial: number; // mm
+  overlap: number; // Axial length both profiles cover (mm)
+  depthDelta: number; // Imported minus current (mm)
+  mouthDelta: number; // Imported minus current mouth diameter (mm)
+}
+
+// Millimetres per unit
+const UNIT_SIZE: Record<CsvUnits, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+};
+
+const AXES: CsvAxis[] = ["x", "y", "z"];
+const UNIT_PATTERN = /[([]\s*(mm|cm|m|in|inch|inches)\s*[)\]]/i;
+const COMPARE_SAMPLES = 400;
+
+function splitRow(line: string): string[] {
+  if (line.includes("\t")) return line.split("\t").map((t) => t.trim());
+  if (line.includes(";")) {
+    // Semicolon files often come with decimal commas
+    return line.split(";").map((t) => t.trim().replace(",", "."));
+  }
+  if (line.includes(",")) return line.split(",").map((t) => t.trim());
+  return line.trim().split(/\s+/);
+}
+
+// Leading numeric cells of a row; text columns after them (such as the Kind
+// column of the Bézier export) are ignored
+function leadingNumbers(cells: string[]): number[] {
+  const values: number[] = [];
+  for (const cell of cells) {
+    if (cell === "") break;
+    const value = Number(cell);
+    if (!isFinite(value)) break;
+    values.push(value);
+  }
+  return values;
+}
+
+const columnRange = (rows: number[][], c: number) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of rows) {
+    min = Math.min(min, row[c]);
+    max = Math.max(max, row[c]);
+  }
+  return { min, max, span: max - min };
+};
+
+// Read an XY or XYZ profile: this app's CSV export in any of its layouts, or
+// points from CAD, a spreadsheet or a measurement. Only the first block of
+// rows is used. `referenceRadius` is the current throat radius (mm), used to
+// guess the units of files without a unit header.
+export function parseProfileCSV(
+  text: string,
+  name: string,
+  units: ImportUnits = "auto",
+  axis: ImportAxis = "auto",
+  referenceRadius = 0
+): ProfileImportResult {
+  const rows: number[][] = [];
+  let header: string[] = [];
+  let skippedBlocks = 0;
+  let inBlock = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line.startsWith("#") || line.startsWith("//")) continue;
+    if (line === "") {
+      inBlock = false;
+      continue;
+    }
+    const cells = splitRow(line);
+    const values = leadingNumbers(cells);
+    if (values.length < 2) {
+      if (rows.length === 0) header = cells;
+      continue;
+    }
+    if (!inBlock && rows.length > 0) skippedBlocks++;
+    inBlock = true;
+    if (skippedBlocks === 0) rows.push(values);
+  }
+
+  if (rows.length < 2) {
+    return { ok: false, error: "No rows with two or more numbers found." };
+  }
+  // Loops rather than spread arguments, which overflow the stack on dense
+  // files
+  const columns = rows.reduce((min, row) => Math.min(min, row.length), 3);
+  const ranges = Array.from({ length: columns }, (_, c) =>
+    columnRange(rows, c)
+  );
+  const scale = Math.max(...ranges.map((r) => Math.max(-r.min, r.max)));
+  const varying = ranges
+    .map((r, c) => ({ c, span: r.span }))
+    .filter(({ span }) => span > 1e-9 * scale);
+  if (varying.length < 2) {
+    return {
+      ok: false,
+      error: "Need two columns that change along the profile.",
+    };
+  }
+
+  // Horn axis: the varying column that starts closest to its own minimum
+  // (the throat is usually at zero). The radius then goes on the next axis,
+  // as in the export, or on the other varying column.
+  let axial: number;
+  if (axis === "auto") {
+    const startOffset = ({ c }: { c: number }) =>
+      Math.abs(rows[0][c] - ranges[c].min) / ranges[c].span +
+      Math.abs(rows[0][c]) / scale;
+    axial = varying.reduce((a, b) =>
+      startOffset(b) < startOffset(a) ? b : a
+    ).c;
+  } else {
+    axial = AXES.indexOf(axis);
+    if (axial >= columns) {
+      return {
+        ok: false,
+        error: `The file has no ${axis.toUpperCase()} column.`,
+      };
+    }
+  }
+  const next = (axial + 1) % columns;
+  const radial = varying.some(({ c }) => c === next)
+    ? next
+    : varying.find(({ c }) => c !== axial)?.c;
+  if (radial === undefined) {
+    return { ok: false, error: "No radius column found next to the axis." };
+  }
+
+  // Units: from the header when it names them, else the unit that puts the
+  // throat radius nearest the current design
+  let chosen: CsvUnits = "mm";
+  let unitSource: UnitSource = "manual";
+  const headerUnit = header.join(" ").match(UNIT_PATTERN)?.[1].toLowerCase();
+  if (units !== "auto") {
+    chosen = units;
+  } else if (headerUnit) {
+    chosen = headerUnit.startsWith("in") ? "in" : (headerUnit as CsvUnits);
+    unitSource = "header";
+  } else {
+    unitSource = "scale";
+    const throat = Math.min(
+      Math.abs(rows[0][radial]),
+      Math.abs(rows[rows.length - 1][radial])
+    );
+    if (throat > 0 && referenceRadius > 0) {
+      let best = Infinity;
+      for (const candidate of Object.keys(UNIT_SIZE) as CsvUnits[]) {
+        const miss = Math.abs(
+          Math.log((throat * UNIT_SIZE[candidate]) / referenceRadius)
+        );
+        if (miss < best) {
+          best = miss;
+          chosen = candidate;
+        }
+      }
+    }
+  }
+  const size = UNIT_SIZE[chosen];
+
+  // Throat first, axis pointing into the horn, throat at x = 0
+  let ordered = rows;
+  const reversed =
+    Math.abs(rows[0][radial]) > Math.abs(rows[rows.length - 1][radial]);
+  if (reversed) ordered = [...rows].reverse();
+  const direction =
+    ordered[ordered.length - 1][axial] < ordered[0][axial] ? -1 : 1;
+  const x0 = ordered[0][axial];
+  const points = ordered.map((row) => ({
+    x: direction * (row[axial] - x0) * size,
+    y: Math.abs(row[radial]) * size,
+  }));
+
+  return {
+    ok: true,
+    profile: {
+      name,
+      points,
+      units: chosen,
+      unitSource,
+      axis: AXES[axial],
+      radialAxis: AXES[radial],
+      rows: rows.length,
+      skippedBlocks,
+      reversed,
+    },
+  };
+}
+
+// Leading stretch where the axial position keeps increasing, so radius is a
+// function of x (the rollback past 90 degrees is left out)
+function body(points: Vec2[]): Vec2[] {
+  let end = 1;
+  while (end < points.length && points[end].x >= points[end - 1].x) end++;
+  return points.slice(0, end);
+}
+
+function radiusAt(points: Vec2[], x: number): number {
+  let lo = 0;
+  let hi = points.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].x <= x) lo = mid;
+    else hi = mid;
+  }
+  const a = points[lo];
+  const b = points[hi];
+  const t = b.x > a.x ? (x - a.x) / (b.x - a.x) : 0;
+  return a.y + t * (b.y - a.y);
+}
+
+function depth(points: Vec2[]): number {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const p of points) {
+    min = Math.min(min, p.x);
+    max = Math.max(max, p.x);
+  }
+  return max - min;
+}
+
+// Radius difference at equal axial position over the stretch both profiles
+// cover, plus the overall depth and mouth differences. Mouth diameter is
+// twice the last point's radius, as in the stats cards.
+export function compareProfiles(
+  imported: Vec2[],
+  current: Vec2[]
+): ProfileDeviation | null {
+  if (imported.length < 2 || current.length < 2) return null;
+  const a = body(imported);
+  const b = body(current);
+  const from = Math.max(a[0].x, b[0].x);
+  const to = Math.min(a[a.length - 1].x, b[b.length - 1].x);
+
+  let maxRadial = 0;
+  let maxAt = from;
+  let sumSquares = 0;
+  if (to > from) {
+    for (let k = 0; k <= COMPARE_SAMPLES; k++) {
+      const x = from + ((to - from) * k) / COMPARE_SAMPLES;
+      const difference = radiusAt(a, x) - radiusAt(b, x);
+      sumSquares += difference * difference;
+      if (Math.abs(difference) > Math.abs(maxRadial)) {
+        maxRadial = difference;
+        maxAt = x;
+      }
+    }
+  }
+
+  return {
+    maxRadial,
+    maxAt,
+    rmsRadial: to > from ? Math.sqrt(sumSquares / (COMPARE_SAMPLES + 1)) : 0,
+    overlap: Math.max(0, to - from),
+    depthDelta: depth(imported) - depth(current),
+    mouthDelta:
+      2 * (imported[imported.length - 1].y - current[current.length - 1].y),
+  };
+}
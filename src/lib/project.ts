@@ -0,0 +1,368 @@
+import { DEFAULT_CSV_OPTIONS, type CsvOptions } from "./csvExport";
+import { HORN_FAMILIES, type HornFamily } from "./families";
+import { DEFAULT_HORNRESP_DRIVER, type HornrespDriver } from "./hornresp";
+import type { CrossSection, RollbackMode, TerminationMode } from "./lecleach";
+import type { MeshOptions } from "./mesh";
+import { DRIVER_FLANGE_PRESETS, type FlangeOptions } from "./shell";
+import type { SlicerOptions } from "./slicer";
+import type { TemplateOptions } from "./template";
+
+export const PROJECT_FORMAT = "lecleach-horn-project";
+export const PROJECT_VERSION = 1;
+
+// Inputs that shape the inner wall
+export interface ProjectDesign {
+  family: HornFamily;
+  coneAngle: number;
+  coverageAngle: number;
+  fc: number;
+  T: number;
+  d0: number;
+  roundOver: number;
+  rollbackMode: RollbackMode;
+  spiralGrowth: number;
+  clothoidRate: number;
+  lipRadius: number;
+  termination: TerminationMode;
+  stopDiameter: number;
+  stopDepth: number;
+  stopLength: number;
+  crossSection: CrossSection;
+  throatWidth: number;
+  throatHeight: number;
+  mouthAspect: number;
+}
+
+export interface ProjectShell {
+  wallThickness: number;
+  flangeEnabled: boolean;
+  flange: FlangeOptions;
+}
+
+export interface ProjectConstraints {
+  maxMouthDiameter: number;
+  lockMouthDiameter: boolean;
+  maxDepth: number; // 0 = unconstrained
+  optimizeT: boolean;
+}
+
+export interface ProjectSolver {
+  tolerance: number; // Adaptive step chord deviation (mm), 0 = fixed 0.5 mm steps
+}
+
+export interface ProjectExports {
+  csv: CsvOptions;
+  mesh: Pick<MeshOptions, "segments" | "split" | "axialParts" | "keys">;
+  template: Omit<TemplateOptions, "margin">;
+  slicer: SlicerOptions;
+  bezierTolerance: number;
+  hornrespDriver: HornrespDriver;
+}
+
+export interface Project {
+  name: string;
+  notes: string;
+  design: ProjectDesign;
+  shell: ProjectShell;
+  constraints: ProjectConstraints;
+  solver: ProjectSolver;
+  exports: ProjectExports;
+}
+
+export type ProjectLoadResult =
+  | { ok: true; project: Project; migratedFrom: number | null }
+  | { ok: false; errors: string[] };
+
+// The app's starting design. Missing fields of a loaded file take these.
+export const DEFAULT_PROJECT: Project = {
+  name: "",
+  notes: "",
+  design: {
+    family: "lecleach",
+    coneAngle: 30,
+    coverageAngle: 45,
+    fc: 340,
+    T: 1.0,
+    d0: 36.0,
+    roundOver: 180,
+    rollbackMode: "spiral",
+    spiralGrowth: 1.0025,
+    clothoidRate: 0.005,
+    lipRadius: 0,
+    termination: "angle",
+    stopDiameter: 500,
+    stopDepth: 250,
+    stopLength: 400,
+    crossSection: "round",
+    throatWidth: 40,
+    throatHeight: 25,
+    mouthAspect: 1.0,
+  },
+  shell: {
+    wallThickness: 0,
+    flangeEnabled: false,
+    flange: { ...DRIVER_FLANGE_PRESETS[0].options, thickness: 10 },
+  },
+  constraints: {
+    maxMouthDiameter: 620,
+    lockMouthDiameter: false,
+    maxDepth: 0,
+    optimizeT: false,
+  },
+  solver: { tolerance: 0 },
+  exports: {
+    csv: DEFAULT_CSV_OPTIONS,
+    mesh: { segments: 96, split: "none", axialParts: 3, keys: true },
+    template: {
+      paper: "a4",
+      landscape: true,
+      overlap: 10,
+      stationSpacing: 10,
+      mirror: false,
+    },
+    slicer: { sheetThickness: 18, ringWidth: 30, cutStyle: "stepped" },
+    bezierTolerance: 0.05,
+    hornrespDriver: DEFAULT_HORNRESP_DRIVER,
+  },
+};
+
+// Allowed values of the string fields that are enums
+const CHOICES: Record<string, readonly string[]> = {
+  "design.family": HORN_FAMILIES.map((f) => f.value),
+  "design.rollbackMode": ["physical", "clothoid", "circular", "spiral"],
+  "design.termination": ["angle", "diameter", "depth", "length"],
+  "design.crossSection": ["round", "elliptical", "rectangular"],
+  "exports.csv.units": ["mm", "cm", "m", "in"],
+  "exports.csv.axis": ["x", "y", "z"],
+  "exports.csv.delimiter": [",", ";", "\t", " "],
+  "exports.csv.resample": ["none", "count", "spacing"],
+  "exports.csv.weighting": ["uniform", "curvature"],
+  "exports.mesh.split": ["none", "axial", "quarters"],
+  "exports.template.paper": ["a4", "letter"],
+  "exports.slicer.cutStyle": ["stepped", "bevel"],
+};
+
+// Numbers must be finite and not negative; these must also be above zero
+const POSITIVE = new Set([
+  "design.fc",
+  "design.T",
+  "design.d0",
+  "design.roundOver",
+  "design.spiralGrowth",
+  "design.clothoidRate",
+  "design.stopDiameter",
+  "design.stopDepth",
+  "design.stopLength",
+  "design.throatWidth",
+  "design.throatHeight",
+  "design.mouthAspect",
+  "constraints.maxMouthDiameter",
+  "exports.csv.count",
+  "exports.csv.spacing",
+  "exports.mesh.segments",
+  "exports.mesh.axialParts",
+  "exports.template.stationSpacing",
+  "exports.slicer.sheetThickness",
+  "exports.bezierTolerance",
+]);
+
+const INTEGERS = new Set([
+  "shell.flange.holeCount",
+  "exports.csv.count",
+  "exports.mesh.segments",
+  "exports.mesh.axialParts",
+]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Read `value` against the shape of `fallback`: missing fields take the
+// fallback, wrong ones are reported and also take it, unknown keys are
+// dropped. Every problem is collected rather than stopping at the first.
+function readValue(
+  value: unknown,
+  fallback: unknown,
+  path: string,
+  errors: string[]
+): unknown {
+  if (value === undefined) return fallback;
+
+  if (isRecord(fallback)) {
+    if (!isRecord(value)) {
+      errors.push(`${path || "The file"} must be an object.`);
+      return fallback;
+    }
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(fallback)) {
+      const child = path ? `${path}.${key}` : key;
+      result[key] = readValue(value[key], fallback[key], child, errors);
+    }
+    return result;
+  }
+
+  if (typeof value !== typeof fallback) {
+    errors.push(`${path} must be a ${typeof fallback}.`);
+    return fallback;
+  }
+  const choices = CHOICES[path];
+  if (choices && !choices.includes(value as string)) {
+    errors.push(
+      `${path} must be one of ${choices
+        .map((c) => JSON.stringify(c))
+        .join(", ")}.`
+    );
+    return fallback;
+  }
+  if (typeof value === "number") {
+    const ok =
+      isFinite(value) &&
+      (POSITIVE.has(path) ? value > 0 : value >= 0) &&
+      (!INTEGERS.has(path) || Number.isInteger(value));
+    if (!ok) {
+      errors.push(
+        `${path} must be ${
+          INTEGERS.has(path) ? "a whole number" : "a number"
+        } ${POSITIVE.has(path) ? "above zero" : "of zero or more"}.`
+      );
+      return fallback;
+    }
+  }
+  return value;
+}
+
+// Share-link (URL query) parameters and the project fields they hold
+const LINK_FIELDS: Record<string, string> = {
+  family: "design.family",
+  cone: "design.coneAngle",
+  coverage: "design.coverageAngle",
+  fc: "design.fc",
+  T: "design.T",
+  d0: "design.d0",
+  roundOver: "design.roundOver",
+  rollback: "design.rollbackMode",
+  growth: "design.spiralGrowth",
+  clothoid: "design.clothoidRate",
+  lip: "design.lipRadius",
+  stop: "design.termination",
+  sdia: "design.stopDiameter",
+  sdepth: "design.stopDepth",
+  slen: "design.stopLength",
+  tol: "solver.tolerance",
+  section: "design.crossSection",
+  tw: "design.throatWidth",
+  th: "design.throatHeight",
+  aspect: "design.mouthAspect",
+  wall: "shell.wallThickness",
+  flange: "shell.flangeEnabled",
+  fod: "shell.flange.outerDiameter",
+  ft: "shell.flange.thickness",
+  bcd: "shell.flange.boltCircleDiameter",
+  holes: "shell.flange.holeCount",
+  hole: "shell.flange.holeDiameter",
+  mouth: "constraints.maxMouthDiameter",
+  lock: "constraints.lockMouthDiameter",
+};
+
+// Version 0 is a design as the flat share-link parameters (the only way to
+// keep one before project files), with numbers possibly still as strings
+function migrateFromLink(data: Record<string, unknown>) {
+  const result: Record<string, unknown> = {};
+  for (const [key, path] of Object.entries(LINK_FIELDS)) {
+    if (data[key] === undefined) continue;
+    const keys = path.split(".");
+    let target = result;
+    for (const key of keys.slice(0, -1)) {
+      if (!isRecord(target[key])) target[key] = {};
+      target = target[key] as Record<string, unknown>;
+    }
+    const fallback = keys.reduce<unknown>(
+      (value, key) => (value as Record<string, unknown>)[key],
+      DEFAULT_PROJECT
+    );
+    let value = data[key];
+    if (typeof fallback === "number" && typeof value === "string") {
+      value = value.trim() === "" ? NaN : Number(value);
+    } else if (typeof fallback === "boolean" && typeof value === "string") {
+      value = value === "1" || value === "true";
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  return result;
+}
+
+// Each entry upgrades a file from its version to the next one
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => unknown> = {
+  0: migrateFromLink,
+};
+
+export function serializeProject(project: Project): string {
+  const file = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    ...project,
+  };
+  return JSON.stringify(file, null, 2) + "\n";
+}
+
+// Parse, migrate and validate a project file. A file is rejected as a whole
+// if any field is wrong, so a bad value never half-loads a design.
+export function parseProject(text: string): ProjectLoadResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return {
+      ok: false,
+      errors: [`Not valid JSON: ${(error as Error).message}`],
+    };
+  }
+  if (!isRecord(data)) {
+    return { ok: false, errors: ["The file must contain a JSON object."] };
+  }
+
+  let version: number;
+  if (data.format === undefined && data.version === undefined) {
+    if (!Object.keys(LINK_FIELDS).some((key) => key in data)) {
+      return { ok: false, errors: ["This is not a horn project file."] };
+    }
+    version = 0;
+  } else if (data.format !== PROJECT_FORMAT) {
+    return {
+      ok: false,
+      errors: [`format must be "${PROJECT_FORMAT}".`],
+    };
+  } else if (
+    typeof data.version !== "number" ||
+    !Number.isInteger(data.version) ||
+    data.version < 1
+  ) {
+    return { ok: false, errors: ["version must be a whole number from 1."] };
+  } else {
+    version = data.version;
+  }
+  if (version > PROJECT_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `The file is version ${version}; this app reads up to version ${PROJECT_VERSION}. Update the app to open it.`,
+      ],
+    };
+  }
+
+  const migratedFrom = version < PROJECT_VERSION ? version : null;
+  let current: unknown = data;
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    current = MIGRATIONS[v](current as Record<string, unknown>);
+  }
+
+  const errors: string[] = [];
+  const project = readValue(current, DEFAULT_PROJECT, "", errors) as Project;
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    project,
+    migratedFrom,
+  };
+}
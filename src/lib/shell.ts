@@ -0,0 +1,316 @@
+import type { Point } from "./lecleach";
+
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+export interface Vec3 extends Vec2 {
+  z: number;
+}
+
+export interface FlangeOptions {
+  outerDiameter: number; // mm
+  thickness: number; // mm, measured behind the throat plane
+  boltCircleDiameter: number; // mm
+  holeCount: number;
+  holeDiameter: number; // mm
+}
+
+export interface ShellOptions {
+  wallThickness: number; // mm, 0 = no outer shell
+  flange: FlangeOptions | null;
+}
+
+export interface Flange {
+  outline: Vec2[]; // Closed rectangle in the profile plane (x <= 0)
+  boltHoles: Vec3[]; // Hole centres on the driver face (x = -thickness)
+  options: FlangeOptions;
+}
+
+// Common compression driver mounting patterns
+export const DRIVER_FLANGE_PRESETS: {
+  label: string;
+  options: Omit<FlangeOptions, "thickness">;
+}[] = [
+  {
+    label: '1" (3 × M6 on 76 mm)',
+    options: {
+      outerDiameter: 110,
+      boltCircleDiameter: 76,
+      holeCount: 3,
+      holeDiameter: 6.5,
+    },
+  },
+  {
+    label: '1.4" (4 × M6 on 101.6 mm)',
+    options: {
+      outerDiameter: 135,
+      boltCircleDiameter: 101.6,
+      holeCount: 4,
+      holeDiameter: 6.5,
+    },
+  },
+  {
+    label: '2" (4 × M8 on 127 mm)',
+    options: {
+      outerDiameter: 165,
+      boltCircleDiameter: 127,
+      holeCount: 4,
+      holeDiameter: 8.5,
+    },
+  },
+];
+
+// Intersection parameter of segments p1-p2 and p3-p4, or null if they miss
+function segmentIntersection(
+  p1: Vec2,
+  p2: Vec2,
+  p3: Vec2,
+  p4: Vec2
+): { t: number; point: Vec2 } | null {
+  const d1x = p2.x - p1.x;
+  const d1y = p2.y - p1.y;
+  const d2x = p4.x - p3.x;
+  const d2y = p4.y - p3.y;
+  const denom = d1x * d2y - d1y * d2x;
+  if (denom === 0) return null;
+  const t = ((p3.x - p1.x) * d2y - (p3.y - p1.y) * d2x) / denom;
+  const u = ((p3.x - p1.x) * d1y - (p3.y - p1.y) * d1x) / denom;
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+  return { t, point: { x: p1.x + t * d1x, y: p1.y + t * d1y } };
+}
+
+interface SegmentRun {
+  start: number; // First segment (points[start] to points[start + 1])
+  end: number; // One past the last segment
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+const RUN_LENGTH = 32; // Segments per bounding box in the contact search
+
+function wallRuns(points: Vec2[]): SegmentRun[] {
+  const runs: SegmentRun[] = [];
+  for (let start = 0; start < points.length - 1; start += RUN_LENGTH) {
+    const end = Math.min(start + RUN_LENGTH, points.length - 1);
+    const run = {
+      start,
+      end,
+      minX: Infinity,
+      maxX: -Infinity,
+      minY: Infinity,
+      maxY: -Infinity,
+    };
+    for (let j = start; j <= end; j++) {
+      run.minX = Math.min(run.minX, points[j].x);
+      run.maxX = Math.max(run.maxX, points[j].x);
+      run.minY = Math.min(run.minY, points[j].y);
+      run.maxY = Math.max(run.maxY, points[j].y);
+    }
+    runs.push(run);
+  }
+  return runs;
+}
+
+// Outer surface of the horn wall at a constant thickness.
+//
+// Each point is pushed along the wall normal (-sin(angle), cos(angle)), which
+// always points away from the air whichever way the wall is heading. Where
+// the wall curls tighter than the thickness, as in a deep rollback, the raw
+// offset folds back on itself: segments that run against the wall direction
+// are dropped and the remaining loops are cut at their self-intersection, so
+// the result never crosses itself locally. If the curl is tight enough for
+// the outer surface to reach the end face or an earlier part of the wall,
+// the outer curve ends where it meets it.
+export function offsetWall(points: Point[], thickness: number): Vec2[] {
+  if (points.length < 2 || thickness <= 0) return [];
+
+  const raw: Vec2[] = points.map((p) => {
+    const theta = (p.angle * Math.PI) / 180;
+    return {
+      x: p.x - thickness * Math.sin(theta),
+      y: p.y + thickness * Math.cos(theta),
+    };
+  });
+
+  // 1. Drop points whose offset segment reverses against the wall segment
+  const kept: Vec2[] = [raw[0]];
+  for (let i = 1; i < raw.length; i++) {
+    const wallDx = points[i].x - points[i - 1].x;
+    const wallDy = points[i].y - points[i - 1].y;
+    const prev = kept[kept.length - 1];
+    const dot = (raw[i].x - prev.x) * wallDx + (raw[i].y - prev.y) * wallDy;
+    if (dot > 0 || i === raw.length - 1) kept.push(raw[i]);
+  }
+
+  // 2. Cut local loops. A loop in the offset of a curve is at most about one
+  // turn of radius `thickness`, so only nearby segments need checking.
+  const window = 2 * Math.PI * thickness * 2;
+  const result: Vec2[] = [kept[0]];
+  let i = 0;
+  while (i < kept.length - 1) {
+    const a = kept[i];
+    const b = kept[i + 1];
+    let cut: { j: number; point: Vec2 } | null = null;
+    let travelled = Math.hypot(b.x - a.x, b.y - a.y);
+    for (let j = i + 2; j < kept.length - 1 && travelled < window; j++) {
+      const hit = segmentIntersection(a, b, kept[j], kept[j + 1]);
+      if (hit) cut = { j, point: hit.point };
+      travelled += Math.hypot(
+        kept[j + 1].x - kept[j].x,
+        kept[j + 1].y - kept[j].y
+      );
+    }
+    if (cut) {
+      // Skip the loop: jump straight to the far side of the crossing
+      result.push(cut.point);
+      kept[cut.j] = cut.point;
+      i = cut.j;
+    } else {
+      result.push(b);
+      i++;
+    }
+  }
+
+  // 3. A lip that curls tighter than the thickness carries the outer curve
+  // past the end face of the wall (from the last wall point along its
+  // normal), and the forced last point then folds back onto it. End the
+  // curve where it first crosses the end face instead.
+  const face = {
+    from: points[points.length - 1],
+    to: raw[raw.length - 1],
+  };
+  for (let k = 0; k < result.length - 2; k++) {
+    const hit = segmentIntersection(
+      result[k],
+      result[k + 1],
+      face.from,
+      face.to
+    );
+    if (hit) {
+      result.splice(k + 1, result.length, hit.point);
+      break;
+    }
+  }
+
+  // 4. Stop at the first contact with the inner wall. The wall is split into
+  // runs of segments with a bounding box each, so only the runs the offset
+  // segment can reach are searched segment by segment.
+  const runs = wallRuns(points);
+  for (let k = 0; k < result.length - 1; k++) {
+    const a = result[k];
+    const b = result[k + 1];
+    const minX = Math.min(a.x, b.x);
+    const maxX = Math.max(a.x, b.x);
+    const minY = Math.min(a.y, b.y);
+    const maxY = Math.max(a.y, b.y);
+    for (const run of runs) {
+      if (
+        run.maxX < minX ||
+        run.minX > maxX ||
+        run.maxY < minY ||
+        run.minY > maxY
+      ) {
+        continue;
+      }
+      for (let j = run.start; j < run.end; j++) {
+        const hit = segmentIntersection(a, b, points[j], points[j + 1]);
+        if (hit) return [...result.slice(0, k + 1), hit.point];
+      }
+    }
+  }
+
+  return result;
+}
+
+// Throat mounting flange behind the throat plane. The bore matches the
+// throat; bolt holes are spread evenly on the bolt circle, starting on +Y.
+export function buildFlange(
+  throatRadius: number,
+  options: FlangeOptions
+): Flange {
+  const outerRadius = options.outerDiameter / 2;
+  const t = options.thickness;
+  const outline: Vec2[] = [
+    { x: 0, y: throatRadius },
+    { x: -t, y: throatRadius },
+    { x: -t, y: outerRadius },
+    { x: 0, y: outerRadius },
+    { x: 0, y: throatRadius },
+  ];
+
+  const boltHoles: Vec3[] = [];
+  const r = options.boltCircleDiameter / 2;
+  for (let k = 0; k < options.holeCount; k++) {
+    const phi = (2 * Math.PI * k) / options.holeCount;
+    boltHoles.push({ x: -t, y: r * Math.cos(phi), z: r * Math.sin(phi) });
+  }
+
+  return { outline, boltHoles, options };
+}
+
+// Sanity checks for a flange against the throat and wall it has to carry
+export function validateFlange(
+  throatRadius: number,
+  wallThickness: number,
+  options: FlangeOptions
+): string | null {
+  const boltRadius = options.boltCircleDiameter / 2;
+  const holeRadius = options.holeDiameter / 2;
+  if (boltRadius - holeRadius <= throatRadius) {
+    return "Bolt holes cut into the throat bore.";
+  }
+  if (boltRadius + holeRadius >= options.outerDiameter / 2) {
+    return "Bolt holes break out of the flange edge.";
+  }
+  if (options.outerDiameter / 2 < throatRadius + wallThickness) {
+    return "Flange is smaller than the horn wall at the throat.";
+  }
+  return null;
+}
+
+// One side of the horn: the inner (air) wall and its outer offset. Vertical
+// walls of non-axisymmetric horns are written in the XZ plane.
+export interface ShellWall {
+  label: string;
+  inner: Vec2[];
+  outer: Vec2[];
+  plane: "xy" | "xz";
+}
+
+// Fusion 360 friendly XYZ (cm) curves, one block per curve separated by a
+// blank line: inner and outer wall of each side, the flange outline, then the
+// bolt hole centres.
+export function generateShellCSV(
+  walls: ShellWall[],
+  flange: Flange | null
+): string {
+  const row = (x: number, y: number, z = 0) =>
+    `${(x / 10).toFixed(4)},${(y / 10).toFixed(4)},${(z / 10).toFixed(4)}\n`;
+  const block = (title: string, curve: Vec2[], plane: "xy" | "xz") =>
+    `# ${title}\n` +
+    curve
+      .map((p) => (plane === "xy" ? row(p.x, p.y) : row(p.x, 0, p.y)))
+      .join("");
+
+  const blocks: string[] = [];
+  for (const wall of walls) {
+    blocks.push(block(`${wall.label} inner wall`, wall.inner, wall.plane));
+    if (wall.outer.length > 0) {
+      blocks.push(block(`${wall.label} outer wall`, wall.outer, wall.plane));
+    }
+  }
+  if (flange) {
+    const { holeCount, holeDiameter, boltCircleDiameter } = flange.options;
+    blocks.push(block("Flange outline", flange.outline, "xy"));
+    blocks.push(
+      `# Bolt holes: ${holeCount} x Ø${holeDiameter} mm on Ø${boltCircleDiameter} mm\n` +
+        flange.boltHoles.map((p) => row(p.x, p.y, p.z)).join("")
+    );
+  }
+
+  return "X (cm),Y (cm),Z (cm)\n" + blocks.join("\n");
+}
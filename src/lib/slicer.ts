@@ -0,0 +1,310 @@
+import type { Point } from "./lecleach";
+import { writeDXF, type DxfCircle, type DxfText } from "./dxf";
+import { createZip } from "./zip";
+
+export type CutStyle = "stepped" | "bevel";
+
+export interface SlicerOptions {
+  sheetThickness: number; // mm
+  ringWidth: number; // mm of material behind the profile edge
+  cutStyle: CutStyle;
+}
+
+// One edge of a ring. Profile edges follow the horn wall: stepped cuts use
+// the diameter that leaves material on the air side (to be sanded back to
+// the line), bevel cuts run from the front face diameter to the back face
+// diameter. Other edges are square cuts at the ring width.
+export interface RingEdge {
+  profile: boolean;
+  diameter: number; // mm, stepped cut
+  frontDiameter: number; // At the zFrom face
+  backDiameter: number; // At the zTo face
+  bevelAngle: number; // Degrees from square (0 = straight cut)
+}
+
+// One ring cut from one sheet
+export interface RingPart {
+  layer: number; // 1 = nearest the throat, in stacking order
+  part: string; // "Body", "Lip 1"... or "Body + Lip 1" where they join
+  zFrom: number; // Axial position of the sheet face towards the throat (mm)
+  zTo: number;
+  inner: RingEdge;
+  outer: RingEdge;
+}
+
+export interface SliceResult {
+  layers: number;
+  parts: RingPart[];
+  options: SlicerOptions;
+}
+
+// Split the wall wherever it turns through 90° or 270°, so each chain moves
+// one way along the axis. The first chain is the body; the rest are the
+// rolled-back lip, each cut as its own ring.
+function splitChains(points: Point[]): Point[][] {
+  const band = (angle: number) => Math.floor((angle + 90) / 180);
+  const chains: Point[][] = [];
+  let current: Point[] = [];
+  for (const p of points) {
+    if (current.length > 0 && band(p.angle) !== band(current[0].angle)) {
+      current.push(p); // Share the turning point with the next chain
+      chains.push(current);
+      current = [];
+    }
+    current.push(p);
+  }
+  if (current.length > 1) chains.push(current);
+  return chains;
+}
+
+// Radius of a chain at axial position x, interpolated between points
+function radiusAt(chain: Point[], x: number): number | null {
+  for (let i = 0; i < chain.length - 1; i++) {
+    const a = chain[i];
+    const b = chain[i + 1];
+    if ((a.x - x) * (b.x - x) > 0) continue;
+    if (a.x === b.x) return Math.max(a.y, b.y);
+    return a.y + ((x - a.x) / (b.x - a.x)) * (b.y - a.y);
+  }
+  return null;
+}
+
+const squareEdge = (radius: number): RingEdge => ({
+  profile: false,
+  diameter: radius * 2,
+  frontDiameter: radius * 2,
+  backDiameter: radius * 2,
+  bevelAngle: 0,
+});
+
+// Rings of one sheet that overlap are the same piece of material, e.g. where
+// the lip curls back onto the body near the mouth
+function mergeRings(parts: RingPart[]): RingPart[] {
+  const sorted = [...parts].sort((a, b) => a.inner.diameter - b.inner.diameter);
+  const merged: RingPart[] = [];
+  for (const part of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && part.inner.diameter <= last.outer.diameter) {
+      const outer =
+        part.outer.diameter > last.outer.diameter ? part.outer : last.outer;
+      merged[merged.length - 1] = {
+        ...last,
+        part: `${last.part} + ${part.part}`,
+        outer,
+      };
+    } else {
+      merged.push(part);
+    }
+  }
+  return merged;
+}
+
+// Cut a horn into a stack of sheets along its axis. Each chain of the wall
+// that passes through a sheet gives one ring. Where the wall travels away
+// from the throat the air is inside, so the profile is the ring's inner
+// edge; on the rolled-back lip (90° to 270°) it is the outer edge.
+export function sliceProfile(
+  points: Point[],
+  options: SlicerOptions
+): SliceResult {
+  const t = options.sheetThickness;
+  if (points.length < 2 || t <= 0) return { layers: 0, parts: [], options };
+
+  let minX = Infinity;
+  let maxX = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+  }
+  const layers = Math.max(1, Math.ceil((maxX - minX) / t - 1e-9));
+  const byLayer: RingPart[][] = Array.from({ length: layers }, () => []);
+
+  splitChains(points).forEach((chain, c) => {
+    const mid = chain[Math.floor(chain.length / 2)];
+    const profileInside = Math.cos((mid.angle * Math.PI) / 180) >= 0;
+    const chainMin = Math.min(...chain.map((p) => p.x));
+    const chainMax = Math.max(...chain.map((p) => p.x));
+
+    for (let k = 0; k < layers; k++) {
+      const zFrom = minX + k * t;
+      const from = Math.max(zFrom, chainMin);
+      const to = Math.min(zFrom + t, chainMax);
+      if (to - from < 1e-6) continue;
+
+      // Part of the chain inside this sheet, including the face crossings
+      const radii = chain
+        .filter((p) => p.x >= from && p.x <= to)
+        .map((p) => p.y);
+      const front = radiusAt(chain, from);
+      const back = radiusAt(chain, to);
+      if (front !== null) radii.push(front);
+      if (back !== null) radii.push(back);
+      if (radii.length === 0) continue;
+
+      const rMin = Math.min(...radii);
+      const rMax = Math.max(...radii);
+      const frontRadius = front ?? rMin;
+      const backRadius = back ?? rMax;
+      const profile: RingEdge = {
+        profile: true,
+        diameter: (profileInside ? rMin : rMax) * 2,
+        frontDiameter: frontRadius * 2,
+        backDiameter: backRadius * 2,
+        bevelAngle:
+          (Math.atan2(Math.abs(backRadius - frontRadius), to - from) * 180) /
+          Math.PI,
+      };
+
+      byLayer[k].push({
+        layer: k + 1,
+        part: c === 0 ? "Body" : `Lip ${c}`,
+        zFrom,
+        zTo: zFrom + t,
+        inner: profileInside
+          ? profile
+          : squareEdge(Math.max(0, rMin - options.ringWidth)),
+        outer: profileInside ? squareEdge(rMax + options.ringWidth) : profile,
+      });
+    }
+  });
+
+  return { layers, parts: byLayer.flatMap(mergeRings), options };
+}
+
+export function generateCutListCSV(result: SliceResult): string {
+  const bevel = result.options.cutStyle === "bevel";
+  let csv = "Layer,Part,Z From (mm),Z To (mm)";
+  csv += bevel
+    ? ",Inner Front (mm),Inner Back (mm),Inner Bevel (deg),Outer Front (mm),Outer Back (mm),Outer Bevel (deg)"
+    : ",Inner Diameter (mm),Outer Diameter (mm)";
+  csv += "\n";
+  for (const p of result.parts) {
+    csv += `${p.layer},${p.part},${p.zFrom.toFixed(2)},${p.zTo.toFixed(2)}`;
+    for (const edge of [p.inner, p.outer]) {
+      csv += bevel
+        ? `,${edge.frontDiameter.toFixed(2)},${edge.backDiameter.toFixed(
+            2
+          )},${edge.bevelAngle.toFixed(2)}`
+        : `,${edge.diameter.toFixed(2)}`;
+    }
+    csv += "\n";
+  }
+  return csv;
+}
+
+const layerName = (layer: number) => `layer-${String(layer).padStart(3, "0")}`;
+
+// The circles to draw for one sheet. Bevelled profile edges are cut at the
+// front face diameter, with the back face diameter drawn as a guide.
+function layerCircles(
+  parts: RingPart[],
+  cutStyle: CutStyle
+): { radius: number; kind: "cut" | "bevel" }[] {
+  const circles: { radius: number; kind: "cut" | "bevel" }[] = [];
+  for (const edge of parts.flatMap((p) => [p.inner, p.outer])) {
+    if (cutStyle === "bevel" && edge.profile) {
+      circles.push({ radius: edge.frontDiameter / 2, kind: "cut" });
+      circles.push({ radius: edge.backDiameter / 2, kind: "bevel" });
+    } else {
+      circles.push({ radius: edge.diameter / 2, kind: "cut" });
+    }
+  }
+  return circles.filter((c) => c.radius > 0);
+}
+
+function layerLabel(parts: RingPart[]): string {
+  const p = parts[0];
+  return `Layer ${p.layer}: z ${p.zFrom.toFixed(1)} to ${p.zTo.toFixed(
+    1
+  )} mm (${parts.map((q) => q.part).join(", ")})`;
+}
+
+function groupByLayer(result: SliceResult): RingPart[][] {
+  const byLayer = new Map<number, RingPart[]>();
+  for (const p of result.parts) {
+    byLayer.set(p.layer, [...(byLayer.get(p.layer) ?? []), p]);
+  }
+  return [...byLayer.values()];
+}
+
+// One DXF per sheet (mm, centred on the horn axis), in a ZIP
+export function generateLayerDXF(result: SliceResult): Uint8Array {
+  const encoder = new TextEncoder();
+  const layers = [
+    { name: "CUT", color: 7 },
+    { name: "BEVEL_BACK_FACE", color: 3 },
+    { name: "LABEL", color: 1 },
+  ];
+  return createZip(
+    groupByLayer(result).map((parts) => {
+      const radius = Math.max(...parts.map((p) => p.outer.diameter / 2));
+      const circles: DxfCircle[] = layerCircles(
+        parts,
+        result.options.cutStyle
+      ).map((c) => ({
+        layer: c.kind === "cut" ? "CUT" : "BEVEL_BACK_FACE",
+        center: { x: 0, y: 0 },
+        radius: c.radius,
+      }));
+      const texts: DxfText[] = [
+        {
+          layer: "LABEL",
+          at: { x: -radius, y: -radius - 10 },
+          height: 5,
+          text: layerLabel(parts),
+        },
+      ];
+      return {
+        name: `${layerName(parts[0].layer)}.dxf`,
+        data: encoder.encode(writeDXF(layers, { circles, texts })),
+      };
+    })
+  );
+}
+
+// One SVG per sheet at 1:1 (mm), in a ZIP
+export function generateLayerSVG(result: SliceResult): Uint8Array {
+  const encoder = new TextEncoder();
+  return createZip(
+    groupByLayer(result).map((parts) => {
+      const radius = Math.max(...parts.map((p) => p.outer.diameter / 2));
+      const size = 2 * radius + 20;
+      const circles = layerCircles(parts, result.options.cutStyle)
+        .map(
+          (c) =>
+            `<circle cx="0" cy="0" r="${c.radius.toFixed(
+              3
+            )}" fill="none" stroke="${
+              c.kind === "cut" ? "#000" : "#16a34a"
+            }" stroke-width="0.3"${
+              c.kind === "bevel" ? ' stroke-dasharray="2 1"' : ""
+            }/>`
+        )
+        .join("\n");
+      const svg = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${size.toFixed(
+          2
+        )}mm" height="${(size + 10).toFixed(2)}mm" viewBox="${(
+          -size / 2
+        ).toFixed(3)} ${(-size / 2).toFixed(3)} ${size.toFixed(3)} ${(
+          size + 10
+        ).toFixed(3)}">`,
+        circles,
+        `<line x1="-3" y1="0" x2="3" y2="0" stroke="#000" stroke-width="0.2"/>`,
+        `<line x1="0" y1="-3" x2="0" y2="3" stroke="#000" stroke-width="0.2"/>`,
+        `<text x="${(-size / 2 + 2).toFixed(3)}" y="${(size / 2 + 6).toFixed(
+          3
+        )}" font-family="Helvetica, Arial, sans-serif" font-size="4">${layerLabel(
+          parts
+        )}</text>`,
+        "</svg>",
+        "",
+      ].join("\n");
+      return {
+        name: `${layerName(parts[0].layer)}.svg`,
+        data: encoder.encode(svg),
+      };
+    })
+  );
+}
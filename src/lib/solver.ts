@@ -0,0 +1,173 @@
+import { LeCleachHornCalculator, type LeCleachParams } from "./lecleach";
+
+export interface FitConstraints {
+  maxMouthDiameter?: number; // mm, undefined = unconstrained
+  maxDepth?: number; // mm, undefined = unconstrained
+}
+
+export interface FitOptions {
+  optimizeT: boolean; // Also search T for the lowest achievable cutoff
+  stepSize: number; // Solver step used for every trial profile (mm)
+  tolerance?: number; // Adaptive step tolerance (mm), see generateProfile
+  fcRange?: [number, number]; // Search bounds for the cutoff (Hz)
+  tRange?: [number, number]; // Search bounds for T
+}
+
+export interface HornSize {
+  mouthDiameter: number; // Widest mouth dimension in mm
+  depth: number; // Axial depth in mm
+}
+
+export interface FitResult extends HornSize {
+  feasible: boolean; // False when even the highest fc breaks a constraint
+  fc: number;
+  T: number;
+  evaluations: number; // Number of trial profiles generated
+}
+
+// Measure the overall size of a horn, including both walls of
+// non-axisymmetric designs.
+export function measureHorn(
+  params: LeCleachParams,
+  stepSize: number,
+  tolerance?: number
+): HornSize {
+  const calculator = new LeCleachHornCalculator(params);
+  const walls = calculator.isAxisymmetric()
+    ? [calculator.generateProfile(stepSize, tolerance)]
+    : Object.values(calculator.generateWalls(stepSize, tolerance));
+
+  let mouthDiameter = 0;
+  let depth = 0;
+  for (const wall of walls) {
+    const last = wall[wall.length - 1];
+    if (last) mouthDiameter = Math.max(mouthDiameter, last.y * 2);
+    for (const p of wall) {
+      if (p.x > depth) depth = p.x;
+    }
+  }
+  return { mouthDiameter, depth };
+}
+
+function fits(size: HornSize, constraints: FitConstraints): boolean {
+  if (
+    constraints.maxMouthDiameter !== undefined &&
+    size.mouthDiameter > constraints.maxMouthDiameter
+  ) {
+    return false;
+  }
+  if (constraints.maxDepth !== undefined && size.depth > constraints.maxDepth) {
+    return false;
+  }
+  return true;
+}
+
+// Find the lowest cutoff (and optionally the T that allows it) for which the
+// horn fits the given constraints. Throat size, cross section and rollback are
+// taken unchanged from `base`.
+//
+// Both mouth size and depth shrink as fc rises, so for a fixed T the lowest
+// fitting cutoff is found by bisection. When T is optimized as well, a
+// golden-section search over T minimizes that lowest cutoff.
+export function solveForConstraints(
+  base: LeCleachParams,
+  constraints: FitConstraints,
+  options: FitOptions
+): FitResult {
+  const [fcMin, fcMax] = options.fcRange ?? [50, 5000];
+  const [tMin, tMax] = options.tRange ?? [0.5, 2.0];
+  let evaluations = 0;
+
+  const measure = (fc: number, T: number) => {
+    evaluations++;
+    return measureHorn({ ...base, fc, T }, options.stepSize, options.tolerance);
+  };
+
+  // Lowest whole-Hz cutoff that fits for a given T, or null if none does
+  const lowestFc = (T: number): { fc: number; size: HornSize } | null => {
+    const highest = measure(fcMax, T);
+    if (!fits(highest, constraints)) return null;
+
+    const lowest = measure(fcMin, T);
+    if (fits(lowest, constraints)) return { fc: fcMin, size: lowest };
+
+    let lo = fcMin; // Does not fit
+    let hi = fcMax; // Fits
+    let hiSize = highest;
+    while (hi - lo > 1) {
+      const mid = Math.round((lo + hi) / 2);
+      const size = measure(mid, T);
+      if (fits(size, constraints)) {
+        hi = mid;
+        hiSize = size;
+      } else {
+        lo = mid;
+      }
+    }
+    return { fc: hi, size: hiSize };
+  };
+
+  if (!options.optimizeT) {
+    const found = lowestFc(base.T);
+    if (!found) {
+      return {
+        feasible: false,
+        fc: fcMax,
+        T: base.T,
+        ...measure(fcMax, base.T),
+        evaluations,
+      };
+    }
+    return {
+      feasible: true,
+      fc: found.fc,
+      T: base.T,
+      ...found.size,
+      evaluations,
+    };
+  }
+
+  // Golden-section search over T (rounded to 0.01) for the lowest cutoff.
+  // Infeasible T values score as +Infinity.
+  const cache = new Map<number, ReturnType<typeof lowestFc>>();
+  const score = (T: number) => {
+    const key = Math.round(T * 100) / 100;
+    if (!cache.has(key)) cache.set(key, lowestFc(key));
+    return cache.get(key)?.fc ?? Infinity;
+  };
+
+  const GOLDEN = (Math.sqrt(5) - 1) / 2;
+  let a = tMin;
+  let b = tMax;
+  let c = b - GOLDEN * (b - a);
+  let d = a + GOLDEN * (b - a);
+  while (b - a > 0.02) {
+    if (score(c) <= score(d)) {
+      b = d;
+    } else {
+      a = c;
+    }
+    c = b - GOLDEN * (b - a);
+    d = a + GOLDEN * (b - a);
+  }
+
+  let bestT = base.T;
+  let best: ReturnType<typeof lowestFc> = null;
+  for (const [T, found] of cache) {
+    if (found && (!best || found.fc < best.fc)) {
+      best = found;
+      bestT = T;
+    }
+  }
+
+  if (!best) {
+    return {
+      feasible: false,
+      fc: fcMax,
+      T: base.T,
+      ...measure(fcMax, base.T),
+      evaluations,
+    };
+  }
+  return { feasible: true, fc: best.fc, T: bestT, ...best.size, evaluations };
+}
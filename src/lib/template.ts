@@ -0,0 +1,558 @@
+import type { ProfileDrawing } from "./dxf";
+import type { Vec2 } from "./shell";
+import { createZip } from "./zip";
+
+export type PaperSize = "a4" | "letter";
+
+export interface TemplateOptions {
+  paper: PaperSize;
+  landscape: boolean;
+  overlap: number; // mm shared by neighbouring pages
+  stationSpacing: number; // mm between station ticks along the axis
+  mirror: boolean; // Also draw the lower (mirrored) half
+  margin?: number; // Unprintable border in mm (default 10)
+}
+
+// Drawing primitives in millimetres. Template shapes use drawing coordinates
+// (x along the axis, y up); page shapes use paper coordinates (y down).
+export type TemplateShape =
+  | { kind: "polyline"; points: Vec2[]; width: number; dash?: number[] }
+  | { kind: "circle"; center: Vec2; radius: number; width: number }
+  | {
+      kind: "text";
+      at: Vec2;
+      text: string;
+      size: number;
+      anchor?: "start" | "middle" | "end";
+    };
+
+export interface TemplatePage {
+  row: number;
+  col: number;
+  label: string; // e.g. "B3"
+  x0: number; // Drawing x at the left of the content area
+  yTop: number; // Drawing y at the top of the content area
+}
+
+export interface Template {
+  paperWidth: number; // mm
+  paperHeight: number;
+  margin: number;
+  contentWidth: number; // Drawing area on each page
+  contentHeight: number;
+  overlap: number;
+  rows: number;
+  cols: number;
+  pages: TemplatePage[];
+  shapes: TemplateShape[]; // Shared drawing, tiled across the pages
+}
+
+const PAPER: Record<PaperSize, [number, number]> = {
+  a4: [210, 297],
+  letter: [215.9, 279.4],
+};
+
+const FOOTER = 16; // mm below the drawing area for the label and ruler
+const RULER = 100; // mm, scale-check bar length
+
+const mirror = (points: Vec2[]): Vec2[] =>
+  points.map((p) => ({ x: p.x, y: -p.y }));
+
+// All points where a polyline crosses the vertical line at x
+function crossingsAt(points: Vec2[], x: number): number[] {
+  const ys: number[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if ((a.x - x) * (b.x - x) > 0 || a.x === b.x) continue;
+    const t = (x - a.x) / (b.x - a.x);
+    if (t < 0 || t >= 1) continue;
+    ys.push(a.y + t * (b.y - a.y));
+  }
+  return ys;
+}
+
+function registrationMark(center: Vec2): TemplateShape[] {
+  const r = 4;
+  return [
+    { kind: "circle", center, radius: r, width: 0.2 },
+    {
+      kind: "polyline",
+      points: [
+        { x: center.x - r * 1.5, y: center.y },
+        { x: center.x + r * 1.5, y: center.y },
+      ],
+      width: 0.2,
+    },
+    {
+      kind: "polyline",
+      points: [
+        { x: center.x, y: center.y - r * 1.5 },
+        { x: center.x, y: center.y + r * 1.5 },
+      ],
+      width: 0.2,
+    },
+  ];
+}
+
+// Lay a 1:1 drawing of the horn section out over as many pages as needed.
+// Neighbouring pages share `overlap` mm; registration marks sit in the middle
+// of every overlap band, so pages are aligned by laying marks on top of each
+// other.
+export function buildTemplate(
+  drawing: ProfileDrawing,
+  options: TemplateOptions
+): Template {
+  const margin = options.margin ?? 10;
+  const [shortSide, longSide] = PAPER[options.paper];
+  const paperWidth = options.landscape ? longSide : shortSide;
+  const paperHeight = options.landscape ? shortSide : longSide;
+  const contentWidth = paperWidth - 2 * margin;
+  const contentHeight = paperHeight - 2 * margin - FOOTER;
+  const overlap = Math.min(
+    Math.max(0, options.overlap),
+    contentWidth / 2,
+    contentHeight / 2
+  );
+
+  const walls = [drawing.inner, drawing.vertical];
+  const outers = [drawing.outer, drawing.verticalOuter];
+  const flange = drawing.flange ? drawing.flange.outline : [];
+  const halves = options.mirror ? [1, -1] : [1];
+
+  const shapes: TemplateShape[] = [];
+  for (const side of halves) {
+    const place = (points: Vec2[]) => (side === 1 ? points : mirror(points));
+    walls.forEach((wall, i) => {
+      if (wall.length < 2) return;
+      shapes.push({
+        kind: "polyline",
+        points: place(wall),
+        width: 0.5,
+        dash: i === 1 ? [4, 2] : undefined,
+      });
+    });
+    for (const outer of outers) {
+      if (outer.length < 2) continue;
+      shapes.push({ kind: "polyline", points: place(outer), width: 0.3 });
+    }
+    if (flange.length > 1) {
+      shapes.push({ kind: "polyline", points: place(flange), width: 0.3 });
+    }
+  }
+
+  // Bounds of everything drawn so far
+  let minX = 0;
+  let maxX = 0;
+  let minY = 0;
+  let maxY = 0;
+  for (const shape of shapes) {
+    if (shape.kind !== "polyline") continue;
+    for (const p of shape.points) {
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+      minY = Math.min(minY, p.y);
+      maxY = Math.max(maxY, p.y);
+    }
+  }
+  const pad = 10;
+  minX -= pad;
+  maxX += pad;
+  minY -= pad + 8; // Room for the station labels under the axis
+  maxY += pad;
+
+  // Axis and station ticks
+  shapes.push({
+    kind: "polyline",
+    points: [
+      { x: minX, y: 0 },
+      { x: maxX, y: 0 },
+    ],
+    width: 0.25,
+    dash: [8, 2, 2, 2],
+  });
+  const spacing = Math.max(1, options.stationSpacing);
+  const labelEvery = spacing >= 10 ? 1 : Math.ceil(10 / spacing);
+  const firstStation = Math.ceil((minX + pad) / spacing);
+  for (let k = firstStation; k * spacing <= maxX - pad; k++) {
+    const x = k * spacing;
+    const major = k % labelEvery === 0;
+    shapes.push({
+      kind: "polyline",
+      points: [
+        { x, y: major ? 3 : 1.5 },
+        { x, y: major ? -3 : -1.5 },
+      ],
+      width: 0.2,
+    });
+    if (!major) continue;
+    shapes.push({
+      kind: "text",
+      at: { x, y: -6 },
+      text: `${+x.toFixed(1)}`,
+      size: 2.5,
+      anchor: "middle",
+    });
+    // Station crosses on the wall with their radius, for tracing
+    for (const side of halves) {
+      for (const y of crossingsAt(drawing.inner, x)) {
+        const wy = side * y;
+        shapes.push({
+          kind: "polyline",
+          points: [
+            { x: x - 1.5, y: wy },
+            { x: x + 1.5, y: wy },
+          ],
+          width: 0.2,
+        });
+        shapes.push({
+          kind: "text",
+          at: { x: x + 1, y: wy + side * 2 },
+          text: `r${y.toFixed(1)}`,
+          size: 2,
+        });
+      }
+    }
+  }
+
+  // Tile grid
+  const stepX = contentWidth - overlap;
+  const stepY = contentHeight - overlap;
+  const cols = Math.max(1, Math.ceil((maxX - minX - overlap) / stepX));
+  const rows = Math.max(1, Math.ceil((maxY - minY - overlap) / stepY));
+  // Centre the drawing on the tiled area
+  const left = (minX + maxX) / 2 - (cols * stepX + overlap) / 2;
+  const top = (minY + maxY) / 2 + (rows * stepY + overlap) / 2;
+
+  const pages: TemplatePage[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      pages.push({
+        row,
+        col,
+        label: `${String.fromCharCode(65 + (row % 26))}${col + 1}`,
+        x0: left + col * stepX,
+        yTop: top - row * stepY,
+      });
+    }
+  }
+
+  // Registration marks in the middle of each overlap band: along every seam
+  // at both ends and at each crossing seam
+  if (overlap > 0) {
+    const seamX = Array.from(
+      { length: cols - 1 },
+      (_, c) => left + (c + 1) * stepX + overlap / 2
+    );
+    const seamY = Array.from(
+      { length: rows - 1 },
+      (_, r) => top - (r + 1) * stepY - overlap / 2
+    );
+    const edgeX = [left + overlap / 2, left + cols * stepX + overlap / 2];
+    const edgeY = [top - overlap / 2, top - rows * stepY - overlap / 2];
+    const marks = new Map<string, Vec2>();
+    for (const x of seamX) {
+      for (const y of [...edgeY, ...seamY]) marks.set(`${x},${y}`, { x, y });
+    }
+    for (const y of seamY) {
+      for (const x of edgeX) marks.set(`${x},${y}`, { x, y });
+    }
+    for (const mark of marks.values()) shapes.push(...registrationMark(mark));
+  }
+
+  return {
+    paperWidth,
+    paperHeight,
+    margin,
+    contentWidth,
+    contentHeight,
+    overlap,
+    rows,
+    cols,
+    pages,
+    shapes,
+  };
+}
+
+interface PageContent {
+  clip: [number, number, number, number]; // x, y, width, height
+  drawing: TemplateShape[]; // Clipped to `clip`
+  furniture: TemplateShape[]; // Border, guides, label and ruler
+}
+
+// Shapes for one page in paper coordinates (mm, y down): the part of the
+// drawing on this tile, the overlap guides, the page label and the ruler.
+function renderPage(
+  template: Template,
+  page: TemplatePage,
+  title: string
+): PageContent {
+  const { margin, contentWidth, contentHeight, overlap, rows, cols } = template;
+  const toPage = (p: Vec2): Vec2 => ({
+    x: margin + (p.x - page.x0),
+    y: margin + (page.yTop - p.y),
+  });
+
+  const drawing = template.shapes.map((shape): TemplateShape => {
+    switch (shape.kind) {
+      case "polyline":
+        return { ...shape, points: shape.points.map(toPage) };
+      case "circle":
+        return { ...shape, center: toPage(shape.center) };
+      default:
+        return { ...shape, at: toPage(shape.at) };
+    }
+  });
+
+  const right = margin + contentWidth;
+  const bottom = margin + contentHeight;
+  const line = (a: Vec2, b: Vec2, width: number, dash?: number[]) =>
+    ({ kind: "polyline", points: [a, b], width, dash } as TemplateShape);
+
+  // Content border, and the overlap bands shared with neighbouring pages
+  const furniture: TemplateShape[] = [
+    {
+      kind: "polyline",
+      points: [
+        { x: margin, y: margin },
+        { x: right, y: margin },
+        { x: right, y: bottom },
+        { x: margin, y: bottom },
+        { x: margin, y: margin },
+      ],
+      width: 0.15,
+    },
+  ];
+  const guide = [1, 2];
+  if (page.col > 0) {
+    const x = margin + overlap;
+    furniture.push(line({ x, y: margin }, { x, y: bottom }, 0.15, guide));
+  }
+  if (page.col < cols - 1) {
+    const x = right - overlap;
+    furniture.push(line({ x, y: margin }, { x, y: bottom }, 0.15, guide));
+  }
+  if (page.row > 0) {
+    const y = margin + overlap;
+    furniture.push(line({ x: margin, y }, { x: right, y }, 0.15, guide));
+  }
+  if (page.row < rows - 1) {
+    const y = bottom - overlap;
+    furniture.push(line({ x: margin, y }, { x: right, y }, 0.15, guide));
+  }
+
+  furniture.push(
+    {
+      kind: "text",
+      at: { x: margin, y: bottom + 6 },
+      text: `Page ${page.label} - row ${page.row + 1} of ${rows}, column ${
+        page.col + 1
+      } of ${cols} (rows A-${String.fromCharCode(
+        64 + rows
+      )}, overlap ${overlap} mm)`,
+      size: 3,
+    },
+    {
+      kind: "text",
+      at: { x: margin, y: bottom + 11 },
+      text: `${title} - print at 100% (no fit to page)`,
+      size: 2.2,
+    }
+  );
+
+  // Scale-check ruler, right-aligned in the footer
+  const rulerLeft = right - RULER;
+  const rulerY = bottom + 10;
+  furniture.push(
+    line({ x: rulerLeft, y: rulerY }, { x: right, y: rulerY }, 0.3)
+  );
+  for (let mm = 0; mm <= RULER; mm++) {
+    const length = mm % 10 === 0 ? 3 : mm % 5 === 0 ? 2 : 1;
+    const x = rulerLeft + mm;
+    furniture.push(line({ x, y: rulerY }, { x, y: rulerY - length }, 0.1));
+  }
+  furniture.push({
+    kind: "text",
+    at: { x: rulerLeft + RULER / 2, y: rulerY + 3.5 },
+    text: `Scale check: this bar must measure ${RULER} mm`,
+    size: 2.2,
+    anchor: "middle",
+  });
+
+  return {
+    clip: [margin, margin, contentWidth, contentHeight],
+    drawing,
+    furniture,
+  };
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+function shapeToSVG(shape: TemplateShape): string {
+  switch (shape.kind) {
+    case "polyline": {
+      const points = shape.points
+        .map((p) => `${p.x.toFixed(3)},${p.y.toFixed(3)}`)
+        .join(" ");
+      const dash = shape.dash
+        ? ` stroke-dasharray="${shape.dash.join(" ")}"`
+        : "";
+      return `<polyline points="${points}" fill="none" stroke="#000" stroke-width="${shape.width}"${dash}/>`;
+    }
+    case "circle":
+      return `<circle cx="${shape.center.x.toFixed(
+        3
+      )}" cy="${shape.center.y.toFixed(3)}" r="${
+        shape.radius
+      }" fill="none" stroke="#000" stroke-width="${shape.width}"/>`;
+    default:
+      return `<text x="${shape.at.x.toFixed(3)}" y="${shape.at.y.toFixed(
+        3
+      )}" font-family="Helvetica, Arial, sans-serif" font-size="${
+        shape.size
+      }" text-anchor="${shape.anchor ?? "start"}">${escapeXml(
+        shape.text
+      )}</text>`;
+  }
+}
+
+// One SVG per page, sized in millimetres so it prints at 1:1, in a ZIP
+export function generateTemplateSVG(
+  template: Template,
+  title: string
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries = template.pages.map((page) => {
+    const content = renderPage(template, page, title);
+    const [x, y, w, h] = content.clip;
+    const svg = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${template.paperWidth}mm" height="${template.paperHeight}mm" viewBox="0 0 ${template.paperWidth} ${template.paperHeight}">`,
+      `<clipPath id="content"><rect x="${x}" y="${y}" width="${w}" height="${h}"/></clipPath>`,
+      '<g clip-path="url(#content)">',
+      ...content.drawing.map(shapeToSVG),
+      "</g>",
+      ...content.furniture.map(shapeToSVG),
+      "</svg>",
+      "",
+    ].join("\n");
+    return { name: `page-${page.label}.svg`, data: encoder.encode(svg) };
+  });
+  return createZip(entries);
+}
+
+const PT = 72 / 25.4; // PDF points per mm
+
+// PDF strings are byte strings: keep to printable ASCII and escape delimiters
+const pdfText = (text: string) =>
+  text.replace(/[^\x20-\x7e]/g, "?").replace(/([\\()])/g, "\\$1");
+
+function shapeToPDF(shape: TemplateShape, paperHeight: number): string {
+  const X = (x: number) => (x * PT).toFixed(3);
+  const Y = (y: number) => ((paperHeight - y) * PT).toFixed(3);
+  switch (shape.kind) {
+    case "polyline": {
+      if (shape.points.length < 2) return "";
+      const dash = shape.dash
+        ? `[${shape.dash.map((d) => (d * PT).toFixed(2)).join(" ")}] 0 d`
+        : "[] 0 d";
+      const path = shape.points
+        .map((p, i) => `${X(p.x)} ${Y(p.y)} ${i === 0 ? "m" : "l"}`)
+        .join("\n");
+      return `${(shape.width * PT).toFixed(3)} w ${dash}\n${path}\nS\n`;
+    }
+    case "circle": {
+      // Four cubic Bezier quarter arcs
+      const { x, y } = shape.center;
+      const r = shape.radius;
+      const k = 0.5523 * r;
+      return (
+        `${(shape.width * PT).toFixed(3)} w [] 0 d\n` +
+        `${X(x + r)} ${Y(y)} m\n` +
+        `${X(x + r)} ${Y(y + k)} ${X(x + k)} ${Y(y + r)} ${X(x)} ${Y(
+          y + r
+        )} c\n` +
+        `${X(x - k)} ${Y(y + r)} ${X(x - r)} ${Y(y + k)} ${X(x - r)} ${Y(
+          y
+        )} c\n` +
+        `${X(x - r)} ${Y(y - k)} ${X(x - k)} ${Y(y - r)} ${X(x)} ${Y(
+          y - r
+        )} c\n` +
+        `${X(x + k)} ${Y(y - r)} ${X(x + r)} ${Y(y - k)} ${X(x + r)} ${Y(
+          y
+        )} c\nS\n`
+      );
+    }
+    default: {
+      // Helvetica averages about half an em per character
+      const width = shape.text.length * shape.size * 0.5;
+      const shift =
+        shape.anchor === "middle"
+          ? width / 2
+          : shape.anchor === "end"
+          ? width
+          : 0;
+      return `BT /F1 ${(shape.size * PT).toFixed(2)} Tf ${X(
+        shape.at.x - shift
+      )} ${Y(shape.at.y)} Td (${pdfText(shape.text)}) Tj ET\n`;
+    }
+  }
+}
+
+// Multi-page PDF, one tile per page at 1:1. Uses the built-in Helvetica, so
+// nothing is embedded.
+export function generateTemplatePDF(
+  template: Template,
+  title: string
+): Uint8Array {
+  const { paperWidth, paperHeight } = template;
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+
+  // 1: catalog, 2: page tree, 3: font; pages and their contents follow
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+  let id = 4;
+  for (const page of template.pages) {
+    const content = renderPage(template, page, title);
+    const [x, y, w, h] = content.clip;
+    const stream =
+      "0 G 1 J 1 j\n" +
+      `q ${(x * PT).toFixed(3)} ${((paperHeight - y - h) * PT).toFixed(3)} ${(
+        w * PT
+      ).toFixed(3)} ${(h * PT).toFixed(3)} re W n\n` +
+      content.drawing.map((s) => shapeToPDF(s, paperHeight)).join("") +
+      "Q\n" +
+      content.furniture.map((s) => shapeToPDF(s, paperHeight)).join("");
+    const pageId = id++;
+    const contentId = id++;
+    pageIds.push(pageId);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${(paperWidth * PT).toFixed(
+        3
+      )} ${(paperHeight * PT).toFixed(3)}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[
+      contentId
+    ] = `<< /Length ${stream.length} >>\nstream\n${stream}endstream`;
+  }
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds
+    .map((p) => `${p} 0 R`)
+    .join(" ")}] /Count ${pageIds.length} >>`;
+
+  // Everything is ASCII, so string length equals byte length
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let i = 1; i < objects.length; i++) {
+    offsets[i] = pdf.length;
+    pdf += `${i} 0 obj\n${objects[i]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let i = 1; i < objects.length; i++) {
+    pdf += `${offsets[i].toString().padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
@@ -0,0 +1,86 @@
+import type { Point } from "./lecleach";
+import type { Vec2 } from "./shell";
+
+export type WavefrontSpacing = "length" | "points";
+
+// Spherical-cap wavefront through one wall point, as the solver assumes it:
+// centred on the axis and normal to the wall, so its area is
+// 2 * PI * y^2 / (1 + cos(angle))
+export interface WavefrontArc {
+  length: number; // Path length of the wall point (mm)
+  x: number;
+  y: number;
+  angle: number; // Wall angle (degrees)
+  capArea: number; // mm^2
+  targetArea: number; // mm^2
+  residual: number;
+  arc: Vec2[]; // Lower wall point to upper wall point through the axis
+}
+
+const ARC_SEGMENTS = 48;
+const MAX_ARCS = 150;
+const FLAT = 1e-6; // sin(angle) below which the cap is a flat disc
+
+// Points of the cap from the mirrored wall point round to the wall point.
+// Empty when the wall points straight back, where the sphere is unbounded.
+export function capArc(p: Point): Vec2[] {
+  const theta = (p.angle * Math.PI) / 180;
+  const sin = Math.sin(theta);
+  if (sin < FLAT) {
+    return p.angle < 90
+      ? [
+          { x: p.x, y: -p.y },
+          { x: p.x, y: p.y },
+        ]
+      : [];
+  }
+  const radius = p.y / sin;
+  const centre = p.x - radius * Math.cos(theta);
+  const arc: Vec2[] = [];
+  for (let i = 0; i <= ARC_SEGMENTS; i++) {
+    const phi = theta * ((2 * i) / ARC_SEGMENTS - 1);
+    arc.push({
+      x: centre + radius * Math.cos(phi),
+      y: radius * Math.sin(phi),
+    });
+  }
+  return arc;
+}
+
+// Caps every `interval` mm of path length or every `interval` solver points,
+// thinned evenly if that would draw more than MAX_ARCS
+export function wavefronts(
+  points: Point[],
+  spacing: WavefrontSpacing,
+  interval: number
+): WavefrontArc[] {
+  if (!(interval > 0)) return [];
+  const picked: Point[] = [];
+  if (spacing === "points") {
+    const step = Math.max(1, Math.round(interval));
+    for (let i = step; i < points.length; i += step) picked.push(points[i]);
+  } else {
+    let next = interval;
+    for (const p of points) {
+      if (p.length >= next) {
+        picked.push(p);
+        next = (Math.floor(p.length / interval) + 1) * interval;
+      }
+    }
+  }
+
+  const stride = Math.ceil(picked.length / MAX_ARCS) || 1;
+  return picked
+    .filter((_, index) => index % stride === 0)
+    .map((p) => ({
+      length: p.length,
+      x: p.x,
+      y: p.y,
+      angle: p.angle,
+      capArea: p.capArea,
+      targetArea: p.targetArea,
+      residual: p.residual,
+      arc: capArc(p),
+    }))
+    .filter((w) => w.arc.length > 0);
+}
@@ -0,0 +1,101 @@
+// Minimal ZIP writer (stored, no compression), enough for OPC packages such
+// as 3MF. Every file is written with a fixed 1980-01-01 timestamp.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1; // 1980-01-01
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map((entry) => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    offset: 0,
+  }));
+
+  const localSize = files.reduce(
+    (sum, f) => sum + 30 + f.name.length + f.data.length,
+    0
+  );
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+
+  for (const f of files) {
+    f.offset = pos;
+    view.setUint32(pos, 0x04034b50, true); // Local file header
+    view.setUint16(pos + 4, 20, true); // Version needed
+    view.setUint16(pos + 6, 0, true); // Flags
+    view.setUint16(pos + 8, 0, true); // Stored
+    view.setUint16(pos + 10, DOS_TIME, true);
+    view.setUint16(pos + 12, DOS_DATE, true);
+    view.setUint32(pos + 14, f.crc, true);
+    view.setUint32(pos + 18, f.data.length, true);
+    view.setUint32(pos + 22, f.data.length, true);
+    view.setUint16(pos + 26, f.name.length, true);
+    view.setUint16(pos + 28, 0, true);
+    out.set(f.name, pos + 30);
+    out.set(f.data, pos + 30 + f.name.length);
+    pos += 30 + f.name.length + f.data.length;
+  }
+
+  const centralOffset = pos;
+  for (const f of files) {
+    view.setUint32(pos, 0x02014b50, true); // Central directory header
+    view.setUint16(pos + 4, 20, true); // Version made by
+    view.setUint16(pos + 6, 20, true); // Version needed
+    view.setUint16(pos + 8, 0, true);
+    view.setUint16(pos + 10, 0, true);
+    view.setUint16(pos + 12, DOS_TIME, true);
+    view.setUint16(pos + 14, DOS_DATE, true);
+    view.setUint32(pos + 16, f.crc, true);
+    view.setUint32(pos + 20, f.data.length, true);
+    view.setUint32(pos + 24, f.data.length, true);
+    view.setUint16(pos + 28, f.name.length, true);
+    view.setUint16(pos + 30, 0, true); // Extra field length
+    view.setUint16(pos + 32, 0, true); // Comment length
+    view.setUint16(pos + 34, 0, true); // Disk number
+    view.setUint16(pos + 36, 0, true); // Internal attributes
+    view.setUint32(pos + 38, 0, true); // External attributes
+    view.setUint32(pos + 42, f.offset, true);
+    out.set(f.name, pos + 46);
+    pos += 46 + f.name.length;
+  }
+
+  view.setUint32(pos, 0x06054b50, true); // End of central directory
+  view.setUint16(pos + 4, 0, true);
+  view.setUint16(pos + 6, 0, true);
+  view.setUint16(pos + 8, files.length, true);
+  view.setUint16(pos + 10, files.length, true);
+  view.setUint32(pos + 12, pos - centralOffset, true);
+  view.setUint32(pos + 16, centralOffset, true);
+  view.setUint16(pos + 20, 0, true);
+
+  return out;
+}
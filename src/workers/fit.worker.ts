@@ -0,0 +1,21 @@
+import { solveForConstraints } from "../lib/solver";
+import type { FitWorkerRequest, FitWorkerResponse } from "./fitProtocol";
+
+// The constraint search generates a full trial profile per step, so it runs
+// here rather than blocking the UI thread. A stale search is cancelled by
+// terminating the worker (see useConstraintSolver).
+const respond = (message: FitWorkerResponse) => postMessage(message);
+
+addEventListener("message", (event: MessageEvent<FitWorkerRequest>) => {
+  const { id, base, constraints, options } = event.data;
+  try {
+    const result = solveForConstraints(base, constraints, options);
+    respond({ type: "result", id, result });
+  } catch (error) {
+    respond({
+      type: "error",
+      id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
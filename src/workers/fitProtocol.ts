@@ -0,0 +1,16 @@
+import type { LeCleachParams } from "../lib/lecleach";
+import type { FitConstraints, FitOptions, FitResult } from "../lib/solver";
+
+// Messages sent from the UI thread to the constraint fit worker
+export type FitWorkerRequest = {
+  type: "fit";
+  id: number;
+  base: LeCleachParams;
+  constraints: FitConstraints;
+  options: FitOptions;
+};
+
+// Messages sent back by the fit worker, tagged with the id of their request
+export type FitWorkerResponse =
+  | { type: "result"; id: number; result: FitResult }
+  | { type: "error"; id: number; message: string };
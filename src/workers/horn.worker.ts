@@ -0,0 +1,25 @@
+import { computeHorn } from "../lib/hornModel";
+import type { HornWorkerRequest, HornWorkerResponse } from "./hornProtocol";
+
+// Profile generation, the shell and downsampling run here, off the UI
+// thread. The point CSV depends on export options, so it is built on demand
+// from the job that produced the result (see generateProfileCSV). Jobs are
+// synchronous, so a stale job is cancelled by terminating the worker (see
+// useHornSolver).
+const respond = (message: HornWorkerResponse) => postMessage(message);
+
+addEventListener("message", (event: MessageEvent<HornWorkerRequest>) => {
+  const { id, job } = event.data;
+  try {
+    const result = computeHorn(job, (stage, progress) =>
+      respond({ type: "progress", id, stage, progress })
+    );
+    respond({ type: "result", id, result });
+  } catch (error) {
+    respond({
+      type: "error",
+      id,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
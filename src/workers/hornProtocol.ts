@@ -0,0 +1,11 @@
+import type { HornJob, HornResult } from "../lib/hornModel";
+
+// Messages sent from the UI thread to the horn worker
+export type HornWorkerRequest = { type: "solve"; id: number; job: HornJob };
+
+// Messages sent back by the horn worker. Every message carries the id of the
+// job it belongs to, so responses for stale jobs can be ignored.
+export type HornWorkerResponse =
+  | { type: "progress"; id: number; stage: string; progress: number }
+  | { type: "result"; id: number; result: HornResult }
+  | { type: "error"; id: number; message: string };